@@ -14,15 +14,26 @@ import Login from "./modules/Auth/Login";
 import Register from "./modules/Auth/Register";
 import ForgotPassword from "./modules/Auth/ForgotPassword";
 import ResetPassword from "./modules/Auth/ResetPassword";
+import Unauthorized from "./modules/Auth/Unauthorized";
 import ProtectedRoute from "./components/common/protected-route"; // Correct path
+import { AuthProvider } from "./hooks/useAuth";
 import UserList from "@/modules/User/UserList";
 import PartyList from "@/modules/Parties/PartyList";
+import PartyDetail from "@/modules/Parties/PartyDetail";
 import LoanList from "@/modules/Loans/LoanList";
+import LoanMigration from "@/modules/Loans/LoanMigration";
 import EntriesList from "@/modules/Loans/Entries";
 import Profile from "./modules/profile/EditAgency";
 import Dashboard from "./modules/Dashboard/dashboard";
 import Registerformat from "./modules/Register/register";
 import RecycleBin from "./modules/RecycleBin/RecycleBin";
+import CollectionSheet from "@/modules/Collections/CollectionSheet";
+import CollectionsDue from "@/modules/Collections/CollectionsDue";
+import DayCloseHistory from "@/modules/DayClose/DayCloseHistory";
+import AgingReport from "@/modules/Reports/AgingReport";
+import AuditLog from "@/modules/Audit/AuditLog";
+import BranchList from "@/modules/Branches/BranchList";
+import { MODULES } from "@/config/permissions";
 import { Toaster } from "sonner";
 import "./App.css";
 const App = () => {
@@ -38,88 +49,162 @@ const App = () => {
       {showAnimation && <div className="background-blur"></div>}
       <Toaster richColors position="top-center" />
       <Router>
-        <Routes>
-          <Route element={<AuthLayout />}>
-            <Route path="/" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/forgot-password" element={<ForgotPassword />} />
-            <Route path="/reset-password/:token" element={<ResetPassword />} />
-          </Route>
-          <Route element={<MainLayout />}>
-            <Route
-              path="/dashboard"
-              element={
-                <ProtectedRoute>
-                  <Dashboard />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/users"
-              element={
-                <ProtectedRoute>
-                  <UserList />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/profile"
-              element={
-                <ProtectedRoute>
-                  <Profile />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/reset-password/:token"
-              element={
-                <ProtectedRoute>
-                  <ResetPassword />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/parties"
-              element={
-                <ProtectedRoute>
-                  <PartyList />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/loans"
-              element={
-                <ProtectedRoute>
-                  <LoanList />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/entries"
-              element={
-                <ProtectedRoute>
-                  <EntriesList />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/registers"
-              element={
-                <ProtectedRoute>
-                  <Registerformat />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/recycle-bin"
-              element={
-                <ProtectedRoute>
-                  <RecycleBin />
-                </ProtectedRoute>
-              }
-            />
-          </Route>
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route element={<AuthLayout />}>
+              <Route path="/" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password/:token" element={<ResetPassword />} />
+            </Route>
+            <Route element={<MainLayout />}>
+              <Route
+                path="/dashboard"
+                element={
+                  <ProtectedRoute>
+                    <Dashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/users"
+                element={
+                  <ProtectedRoute module={MODULES.USERS}>
+                    <UserList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/profile"
+                element={
+                  <ProtectedRoute>
+                    <Profile />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/reset-password/:token"
+                element={
+                  <ProtectedRoute>
+                    <ResetPassword />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/parties"
+                element={
+                  <ProtectedRoute module={MODULES.PARTIES}>
+                    <PartyList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/parties/:id"
+                element={
+                  <ProtectedRoute module={MODULES.PARTIES}>
+                    <PartyDetail />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/loans"
+                element={
+                  <ProtectedRoute module={MODULES.LOANS}>
+                    <LoanList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/loans/migration"
+                element={
+                  <ProtectedRoute module={MODULES.MIGRATION}>
+                    <LoanMigration />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/entries"
+                element={
+                  <ProtectedRoute module={MODULES.ENTRIES}>
+                    <EntriesList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/collection-sheet"
+                element={
+                  <ProtectedRoute module={MODULES.COLLECTIONS}>
+                    <CollectionSheet />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/collections-due"
+                element={
+                  <ProtectedRoute module={MODULES.COLLECTIONS}>
+                    <CollectionsDue />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/day-closes"
+                element={
+                  <ProtectedRoute module={MODULES.DAY_CLOSE}>
+                    <DayCloseHistory />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/reports/aging"
+                element={
+                  <ProtectedRoute module={MODULES.REPORTS}>
+                    <AgingReport />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/audit-log"
+                element={
+                  <ProtectedRoute module={MODULES.AUDIT_LOG}>
+                    <AuditLog />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/branches"
+                element={
+                  <ProtectedRoute module={MODULES.BRANCHES}>
+                    <BranchList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/registers"
+                element={
+                  <ProtectedRoute module={MODULES.REGISTERS}>
+                    <Registerformat />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/unauthorized"
+                element={
+                  <ProtectedRoute>
+                    <Unauthorized />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/recycle-bin"
+                element={
+                  <ProtectedRoute module={MODULES.RECYCLE_BIN}>
+                    <RecycleBin />
+                  </ProtectedRoute>
+                }
+              />
+            </Route>
+          </Routes>
+        </AuthProvider>
       </Router>
     </>
   );
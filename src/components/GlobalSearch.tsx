@@ -1,183 +1,215 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, User, X } from 'lucide-react';
-import { MemberData } from '@/types/member';
-
-// Mock member data for demonstration
-const MOCK_MEMBERS: Partial<MemberData>[] = [
-  {
-    id: '1',
-    name: 'Yash Chaudhari',
-    designation: 'Senior Developer',
-    department: 'Engineering',
-    profilePicture: 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?auto=format&fit=crop&w=100&h=100'
-  },
-  {
-    id: '2',
-    name: 'Saket Bhide',
-    designation: 'Product Manager',
-    department: 'Product',
-    profilePicture: 'https://images.unsplash.com/photo-1570295999919-56ceb5ecca61?auto=format&fit=crop&w=100&h=100'
-  },
-  {
-    id: '3',
-    name: 'Pravin Warke',
-    designation: 'UX Designer',
-    department: 'Design',
-    profilePicture: 'https://images.unsplash.com/photo-1568602471122-7832951cc4c5?auto=format&fit=crop&w=100&h=100'
-  },
-  {
-    id: '4',
-    name: 'Ravi Patil',
-    designation: 'Frontend Developer',
-    department: 'Engineering',
-    profilePicture: 'https://images.unsplash.com/photo-1599566150163-29194dcaad36?auto=format&fit=crop&w=100&h=100'
-  },
-  {
-    id: '5',
-    name: 'Tanuja Nemade',
-    designation: 'HR Manager',
-    department: 'Human Resources',
-    profilePicture: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?auto=format&fit=crop&w=100&h=100'
-  }
-];
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Search, User, Landmark, ReceiptText, LoaderCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandInput,
+  CommandList,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+} from '@/components/ui/command';
+import { get } from '@/services/apiService';
+import { formatCurrency } from '@/lib/formatter';
+
+interface SearchParty {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+  mobile1: string;
+  mobile2?: string | null;
+  reference?: string | null;
+}
+
+interface SearchLoan {
+  id: number;
+  loanAmount: number;
+  balanceAmount: number;
+  isClosed?: boolean;
+  party?: { partyName: string } | null;
+}
+
+interface SearchEntry {
+  id: number;
+  loanId: number;
+  entryDate: string;
+  receivedAmount?: number | null;
+  receivedInterest?: number | null;
+  loan?: { party?: { partyName: string } | null } | null;
+}
+
+interface SearchResults {
+  parties: SearchParty[];
+  loans: SearchLoan[];
+  entries: SearchEntry[];
+}
+
+const RESULTS_PER_GROUP = 5;
 
 const GlobalSearch = () => {
+  const navigate = useNavigate();
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<typeof MOCK_MEMBERS>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const searchRef = useRef<HTMLDivElement>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
 
-  // Close search when clicking outside
+  // Ctrl+K / Cmd+K opens the palette from anywhere
   useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (searchRef.current && !searchRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsOpen((open) => !open);
       }
     };
 
-    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
     return () => {
-      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
     };
   }, []);
 
-  // Search for members
   useEffect(() => {
-    if (searchQuery.length > 0) {
-      setIsLoading(true);
-      
-      // Mock API call with timeout to simulate network request
-      const timeoutId = setTimeout(() => {
-        // In a real application, this would be an API call
-        // const fetchMembers = async () => {
-        //   const response = await fetch(`/api/members/search?q=${searchQuery}`);
-        //   const data = await response.json();
-        //   setSearchResults(data);
-        // };
-        
-        // Filter mock data for demonstration
-        const filteredResults = MOCK_MEMBERS.filter(member => 
-          member.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          member.designation?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          member.department?.toLowerCase().includes(searchQuery.toLowerCase())
-        );
-        
-        setSearchResults(filteredResults);
-        setIsLoading(false);
-      }, 300);
-      
-      return () => clearTimeout(timeoutId);
-    } else {
-      setSearchResults([]);
-      setIsLoading(false);
-    }
+    const timeoutId = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
   }, [searchQuery]);
 
-  const handleSearchFocus = () => {
-    setIsOpen(true);
-  };
+  // Server matches parties on name, account number, mobiles and reference,
+  // loans on id and amount, and entries on id and amount
+  const { data, isFetching } = useQuery<SearchResults>({
+    queryKey: ['globalSearch', debouncedQuery],
+    queryFn: () => get('/search', { q: debouncedQuery, limit: RESULTS_PER_GROUP }),
+    enabled: isOpen && debouncedQuery.length > 0,
+    staleTime: 30000,
+  });
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchQuery(e.target.value);
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) setSearchQuery('');
   };
 
-  const viewMemberProfile = (memberId: string) => {
-    // Navigate to member profile page
-    window.location.href = `/members/${memberId}`;
-    setIsOpen(false);
-    setSearchQuery('');
+  const openResult = (path: string) => {
+    handleOpenChange(false);
+    navigate(path);
   };
 
+  const parties = data?.parties ?? [];
+  const loans = data?.loans ?? [];
+  const entries = data?.entries ?? [];
+  const isSearching = isFetching || searchQuery.trim() !== debouncedQuery;
+
   return (
-    <div className="relative" ref={searchRef}>
-      {/* Search Input */}
-      <div className="relative">
-        <div className="flex items-center bg-gray-100 rounded-full px-4 py-2">
-          <Search className="h-5 w-5 text-gray-500 mr-2" />
-          <input
-            type="text"
-            placeholder="Search members..."
-            className="bg-transparent border-none focus:outline-none w-60"
-            value={searchQuery}
-            onChange={handleSearchChange}
-            onFocus={handleSearchFocus}
-          />
-          {searchQuery && (
-            <button
-              onClick={() => setSearchQuery('')}
-              className="ml-2 text-gray-400 hover:text-gray-600"
-            >
-              <X className="h-4 w-4" />
-            </button>
+    <>
+      <Button
+        variant="outline"
+        className="h-10 justify-start gap-2 text-muted-foreground md:w-56"
+        onClick={() => setIsOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">Search...</span>
+        <kbd className="ml-auto hidden md:inline rounded border bg-muted px-1.5 text-[10px] font-medium">Ctrl K</kbd>
+      </Button>
+
+      <CommandDialog
+        open={isOpen}
+        onOpenChange={handleOpenChange}
+        title="Search"
+        description="Search parties, loans and entries"
+        shouldFilter={false}
+      >
+        <CommandInput
+          placeholder="Party name, account no., mobile, reference, loan # or amount..."
+          value={searchQuery}
+          onValueChange={setSearchQuery}
+        />
+        <CommandList>
+          {isSearching && debouncedQuery && (
+            <div className="flex justify-center py-4">
+              <LoaderCircle className="h-5 w-5 animate-spin" />
+            </div>
+          )}
+
+          {!isSearching && debouncedQuery && (
+            <CommandEmpty>No results found for "{debouncedQuery}"</CommandEmpty>
           )}
-        </div>
-      </div>
-
-      {/* Search Results Dropdown */}
-      {isOpen && (
-        <div className="absolute left-0 right-0 mt-2 bg-white rounded-lg shadow-lg z-50 max-h-[400px] overflow-y-auto">
-          <div className="p-2">
-            <h3 className="text-xs font-semibold text-gray-500 px-3 py-2">SEARCH RESULTS</h3>
-            
-            {isLoading && (
-              <div className="flex justify-center items-center py-4">
-                <div className="loader">Loading...</div>
-              </div>
-            )}
-            
-            {!isLoading && searchResults.length === 0 && searchQuery && (
-              <div className="text-center py-4 text-gray-500">
-                No members found matching "{searchQuery}"
-              </div>
-            )}
-            
-            {!isLoading && searchResults.map((member) => (
-              <div 
-                key={member.id}
-                className="flex items-center px-3 py-2 hover:bg-gray-100 rounded-md cursor-pointer"
-                onClick={() => viewMemberProfile(member.id!)}
-              >
-                <div className="w-10 h-10 rounded-full overflow-hidden mr-3">
-                  <img 
-                    src={member.profilePicture} 
-                    alt={member.name}
-                    className="w-full h-full object-cover"
-                  />
-                </div>
-                <div>
-                  <div className="font-medium text-sm">{member.name}</div>
-                  <div className="text-xs text-gray-500">
-                    {member.designation} • {member.department}
+
+          {!debouncedQuery && (
+            <div className="py-6 text-center text-sm text-muted-foreground">
+              Start typing to search parties, loans and entries
+            </div>
+          )}
+
+          {parties.length > 0 && (
+            <CommandGroup heading="Parties">
+              {parties.map((party) => (
+                <CommandItem
+                  key={`party-${party.id}`}
+                  value={`party-${party.id}`}
+                  onSelect={() => openResult(`/parties/${party.id}`)}
+                >
+                  <User />
+                  <div className="flex flex-col">
+                    <span className="font-medium">{party.partyName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      A/c {party.accountNumber} • {[party.mobile1, party.mobile2].filter(Boolean).join(', ')}
+                      {party.reference && ` • Ref: ${party.reference}`}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {loans.length > 0 && (
+            <CommandGroup heading="Loans">
+              {loans.map((loan) => (
+                <CommandItem
+                  key={`loan-${loan.id}`}
+                  value={`loan-${loan.id}`}
+                  onSelect={() => openResult(`/entries?loanId=${loan.id}`)}
+                >
+                  <Landmark />
+                  <div className="flex flex-col">
+                    <span className="font-medium">
+                      Loan #{loan.id} • {formatCurrency(loan.loanAmount)}
+                      {loan.isClosed && ' (Closed)'}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {loan.party?.partyName} • Balance {formatCurrency(loan.balanceAmount)}
+                    </span>
                   </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
-    </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {entries.length > 0 && (
+            <CommandGroup heading="Entries">
+              {entries.map((entry) => (
+                <CommandItem
+                  key={`entry-${entry.id}`}
+                  value={`entry-${entry.id}`}
+                  onSelect={() => openResult(`/entries?loanId=${entry.loanId}`)}
+                >
+                  <ReceiptText />
+                  <div className="flex flex-col">
+                    <span className="font-medium">
+                      Entry #{entry.id} • Loan #{entry.loanId}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(parseISO(entry.entryDate), 'dd/MM/yyyy')} • {entry.loan?.party?.partyName} • Received{' '}
+                      {formatCurrency((entry.receivedAmount ?? 0) + (entry.receivedInterest ?? 0))}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
   );
 };
 
-export default GlobalSearch; 
\ No newline at end of file
+export default GlobalSearch;
@@ -1,10 +1,16 @@
 import { Link, useNavigate } from "react-router-dom";
-import { LogOut, Menu, Trash } from "lucide-react";
+import { Building2, History, LogOut, Menu, Trash } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { ThemeToggle } from "@/components/common/theme-toggle";
+import GlobalSearch from "@/components/GlobalSearch";
+import { NavbarBranchSwitcher } from "@/components/common/branch-switcher";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { useAuth } from "@/hooks/useAuth";
+import { NAV_ITEMS } from "@/config/navigation";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,11 +40,12 @@ interface AppNavbarProps {
 
 export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarProps) => {
   const navigate = useNavigate();
+  const { can } = useRoleAccess();
+  const { logout } = useAuth();
+  const navItems = NAV_ITEMS.filter((item) => can(item.module, PERMISSIONS.VIEW));
 
   const handleLogout = () => {
-    localStorage.removeItem("user");
-    localStorage.removeItem("token");
-    navigate("/");
+    logout();
   };
   
   const getInitials = (name: string) => {
@@ -60,28 +67,22 @@ export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarPro
         {/* Navigation */}
         <NavigationMenu className="hidden md:flex">
           <NavigationMenuList>
-            
-         
-           
-           
-            <NavigationMenuItem>
-              <NavigationMenuLink asChild className={`${navigationMenuTriggerStyle()} bg-transparent hover:bg-transparent focus:bg-transparent text-base h-12`}>
-                <Link to="/parties">Party</Link>
-              </NavigationMenuLink>
-            </NavigationMenuItem>
-            <NavigationMenuItem>
-              <NavigationMenuLink asChild className={`${navigationMenuTriggerStyle()} bg-transparent hover:bg-transparent focus:bg-transparent text-base h-12`}>
-                <Link to="/loans">Loan</Link>
-              </NavigationMenuLink>
-            </NavigationMenuItem>
+            {navItems.map((item) => (
+              <NavigationMenuItem key={item.url}>
+                <NavigationMenuLink asChild className={`${navigationMenuTriggerStyle()} bg-transparent hover:bg-transparent focus:bg-transparent text-base h-12`}>
+                  <Link to={item.url}>{item.name}</Link>
+                </NavigationMenuLink>
+              </NavigationMenuItem>
+            ))}
           </NavigationMenuList>
         </NavigationMenu>
       </div>
 
       {/* Right side controls */}
       <div className="flex items-center gap-2">
-        
-       
+        <NavbarBranchSwitcher />
+        <GlobalSearch />
+
                 <div className="md:hidden">
           <Sheet>
             <SheetTrigger asChild>
@@ -91,8 +92,11 @@ export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarPro
             </SheetTrigger>
             <SheetContent side="right" className="w-[300px] sm:w-[400px]">
               <nav className="flex flex-col gap-y-4 p-4 pt-10">
-                <Link to="/parties" className="text-lg font-medium p-2 hover:bg-muted rounded-md">Party</Link>
-                <Link to="/loans" className="text-lg font-medium p-2 hover:bg-muted rounded-md">Loan</Link>
+                {navItems.map((item) => (
+                  <Link key={item.url} to={item.url} className="text-lg font-medium p-2 hover:bg-muted rounded-md">
+                    {item.name}
+                  </Link>
+                ))}
               </nav>
             </SheetContent>
           </Sheet>
@@ -101,18 +105,20 @@ export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarPro
         <ThemeToggle isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />
         
         {/* Recycle Bin */}
-        <Tooltip>
-          <TooltipTrigger asChild>
-            <Link 
-              to="/recycle-bin"
-              className="inline-flex items-center justify-center h-10 w-10 rounded-md hover:bg-accent hover:text-accent-foreground transition-colors"
-            >
-              <Trash className="h-5 w-5" />
-              <span className="sr-only">Recycle Bin</span>
-            </Link>
-          </TooltipTrigger>
-          <TooltipContent sideOffset={4}>Recycle Bin</TooltipContent>
-        </Tooltip>
+        {can(MODULES.RECYCLE_BIN, PERMISSIONS.VIEW) && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Link 
+                to="/recycle-bin"
+                className="inline-flex items-center justify-center h-10 w-10 rounded-md hover:bg-accent hover:text-accent-foreground transition-colors"
+              >
+                <Trash className="h-5 w-5" />
+                <span className="sr-only">Recycle Bin</span>
+              </Link>
+            </TooltipTrigger>
+            <TooltipContent sideOffset={4}>Recycle Bin</TooltipContent>
+          </Tooltip>
+        )}
         
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -134,6 +140,18 @@ export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarPro
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
             <DropdownMenuGroup>
+              {can(MODULES.AUDIT_LOG, PERMISSIONS.VIEW) && (
+                <DropdownMenuItem onClick={() => navigate("/audit-log")}>
+                  <History className="mr-2 h-4 w-4" />
+                  <span>Audit Log</span>
+                </DropdownMenuItem>
+              )}
+              {can(MODULES.BRANCHES, PERMISSIONS.VIEW) && (
+                <DropdownMenuItem onClick={() => navigate("/branches")}>
+                  <Building2 className="mr-2 h-4 w-4" />
+                  <span>Branches</span>
+                </DropdownMenuItem>
+              )}
             </DropdownMenuGroup>
              <DropdownMenuItem onClick={handleLogout}>
               <LogOut className="mr-2 h-4 w-4" />
@@ -1,11 +1,7 @@
 import * as React from "react";
 import {
-  AudioWaveform,
   BookOpen,
   Bot,
-  Command,
-  UsersRound,
-  GalleryVerticalEnd,
   Map,
   PieChart,
   Settings2,
@@ -24,7 +20,7 @@ import { NavProjects } from "@/components/common/nav-projects";
 import { NavUser } from "@/components/common/nav-user";
 import { Input } from "@/components/ui/input";
 import { Search } from "lucide-react";
-// import { TeamSwitcher } from "@/components/common/team-switcher"
+import { BranchSwitcher } from "@/components/common/branch-switcher";
 import {
   Sidebar,
   SidebarContent,
@@ -36,66 +32,24 @@ import {
   SidebarRail,
 } from "@/components/ui/sidebar";
 import { appName } from "@/config";
+import { NAV_ITEMS, NavItem } from "@/config/navigation";
+import { PERMISSIONS, hasPermission } from "@/config/permissions";
 
-// This is sample data.
+// Defaults until the stored user is loaded
 const initialData = {
-  roles: {
-    
-    admin: {
-      projects: [
-        // {
-        //   name: "Dashboard",
-        //   url: "/dashboard",
-        //   icon: UsersRound, 
-        // },
-        
-        {
-          name: "Party",
-          url: "/parties",
-          icon: UsersRound,
-        },
-        {
-          name: "Loan",
-          url: "/loans",
-          icon: UsersRound,
-        },
-      
-      ],
-
-     
-    },
- 
-  },
   user: {
     name: "",
     email: "",
     avatar: "",
     avatarName: "",
   },
-  teams: [
-    {
-      name: "Acme Inc",
-      logo: GalleryVerticalEnd,
-      plan: "Enterprise",
-    },
-    {
-      name: "Acme Corp.",
-      logo: AudioWaveform,
-      plan: "Startup",
-    },
-    {
-      name: "Evil Corp.",
-      logo: Command,
-      plan: "Free",
-    },
-  ],
 };
 
 function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const [data, setData] = React.useState({
     ...initialData,
-    projects: [] as typeof initialData.roles.admin.projects,
-    navMain: [] as typeof initialData.roles.admin.projects,
+    projects: [] as NavItem[],
+    navMain: [] as NavItem[],
   });
 
   React.useEffect(() => {
@@ -105,43 +59,21 @@ function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         const parsedUser = JSON.parse(storedUser);
         parsedUser.avatarName = parsedUser.name?.charAt(0).toUpperCase() || "U";
 
-        // Default to admin if no role is specified, then fallback to super_admin for safety
-        let role =
-          (parsedUser.role as keyof typeof initialData.roles) || "admin";
-
-        // If role doesn't exist in our initialData, default to super_admin
-        if (!initialData.roles[role]) {
-          role = "admin";
-        }
-
-        const roleData = initialData.roles[role];
-
+        // Only list the modules this role is allowed to view
         setData((prevData) => ({
           ...prevData,
-          projects: roleData?.projects || [],
+          projects: NAV_ITEMS.filter((item) => hasPermission(parsedUser.role, item.module, PERMISSIONS.VIEW)),
           user: parsedUser,
         }));
       } catch (error) {
         console.error("Failed to parse user from localStorage", error);
-        // If there's an error, set default projects for navigation
-        setData((prevData) => ({
-          ...prevData,
-          projects: initialData.roles.admin.projects,
-         }));
       }
-    } else {
-      // No user in localStorage, show default navigation
-      setData((prevData) => ({
-        ...prevData,
-        projects: initialData.roles.admin.projects,
-      }));
     }
   }, []);
 
   return (
     <Sidebar collapsible="icon" {...props}>
       <SidebarHeader>
-        {/* <TeamSwitcher teams={data.teams} /> */}
         <SidebarMenu className="flex  ">
           <SidebarMenuItem>
             <SidebarMenuButton
@@ -180,6 +112,7 @@ function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             
           </SidebarMenuItem> */}
         </SidebarMenu>
+        <BranchSwitcher />
       </SidebarHeader>
       <SidebarContent>
         <NavProjects projects={data.projects || []} />
@@ -0,0 +1,140 @@
+"use client";
+
+import { Building2, Check, ChevronsUpDown, Layers } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { useBranch } from "@/hooks/useBranch";
+
+const ALL_BRANCHES_LABEL = "All branches";
+
+function BranchMenuItems() {
+  const { branches, selectedBranchId, switchBranch } = useBranch();
+
+  return (
+    <>
+      <DropdownMenuLabel className="text-xs text-muted-foreground">
+        Branches
+      </DropdownMenuLabel>
+      <DropdownMenuItem onClick={() => switchBranch(null)} className="gap-2 p-2">
+        <div className="flex size-6 items-center justify-center rounded-sm border">
+          <Layers className="size-4 shrink-0" />
+        </div>
+        <span className="flex-1">{ALL_BRANCHES_LABEL}</span>
+        {selectedBranchId === null && <Check className="size-4" />}
+      </DropdownMenuItem>
+      {branches.length > 0 && <DropdownMenuSeparator />}
+      {branches.map((branch) => (
+        <DropdownMenuItem
+          key={branch.id}
+          onClick={() => switchBranch(branch.id)}
+          className="gap-2 p-2"
+        >
+          <div className="flex size-6 items-center justify-center rounded-sm border">
+            <Building2 className="size-4 shrink-0" />
+          </div>
+          <div className="grid flex-1 leading-tight">
+            <span className="truncate">{branch.name}</span>
+            <span className="truncate text-xs text-muted-foreground">{branch.code}</span>
+          </div>
+          {selectedBranchId === branch.id && <Check className="size-4" />}
+        </DropdownMenuItem>
+      ))}
+    </>
+  );
+}
+
+// Sidebar header switcher; branch users only see the branch they belong to
+export function BranchSwitcher() {
+  const { isMobile } = useSidebar();
+  const { isHeadOffice, selectedBranch, userBranch } = useBranch();
+
+  const currentName = isHeadOffice ? selectedBranch?.name ?? ALL_BRANCHES_LABEL : userBranch?.name;
+  const caption = isHeadOffice ? (selectedBranch ? selectedBranch.code : "Consolidated view") : userBranch?.code;
+
+  if (!currentName) {
+    return null;
+  }
+
+  const branchButton = (
+    <SidebarMenuButton
+      size="lg"
+      className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
+    >
+      <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-sidebar-primary text-sidebar-primary-foreground">
+        {selectedBranch || !isHeadOffice ? <Building2 className="size-4" /> : <Layers className="size-4" />}
+      </div>
+      <div className="grid flex-1 text-left text-sm leading-tight">
+        <span className="truncate font-semibold">{currentName}</span>
+        <span className="truncate text-xs">{caption}</span>
+      </div>
+      {isHeadOffice && <ChevronsUpDown className="ml-auto" />}
+    </SidebarMenuButton>
+  );
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        {isHeadOffice ? (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>{branchButton}</DropdownMenuTrigger>
+            <DropdownMenuContent
+              className="w-[--radix-dropdown-menu-trigger-width] min-w-56 rounded-lg"
+              align="start"
+              side={isMobile ? "bottom" : "right"}
+              sideOffset={4}
+            >
+              <BranchMenuItems />
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ) : (
+          branchButton
+        )}
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
+
+// Compact switcher for the top navbar
+export function NavbarBranchSwitcher() {
+  const { isHeadOffice, selectedBranch, userBranch } = useBranch();
+
+  if (!isHeadOffice) {
+    return userBranch ? (
+      <div className="hidden md:flex items-center gap-2 px-2 text-sm text-muted-foreground">
+        <Building2 className="h-4 w-4" />
+        <span className="truncate max-w-[10rem]">{userBranch.name}</span>
+      </div>
+    ) : null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          {selectedBranch ? <Building2 className="h-4 w-4" /> : <Layers className="h-4 w-4" />}
+          <span className="hidden md:inline truncate max-w-[10rem]">
+            {selectedBranch?.name ?? ALL_BRANCHES_LABEL}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="min-w-56 rounded-lg" align="end">
+        <BranchMenuItems />
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -3,7 +3,7 @@
 import React, { useState } from "react";
 import { LogOut, UserPen, ChevronsUpDown, KeySquare } from "lucide-react";
 import ConfirmDialog from "@/components/common/confirm-dialog";
-import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -32,14 +32,12 @@ export function NavUser({
   };
 }) {
   const { isMobile } = useSidebar();
-  const navigate = useNavigate();
+  const { logout } = useAuth();
   const [showConfirmation, setShowConfirmation] = useState(false);
 
   const handleLogout = () => {
-    localStorage.removeItem("authToken"); // Remove auth token
-    localStorage.removeItem("user"); // Remove user data
-    navigate("/"); // Redirect to login page
     setShowConfirmation(false);
+    logout();
   };
 
   return (
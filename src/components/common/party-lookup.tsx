@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsUpDown, LoaderCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import { get } from "@/services/apiService";
+
+const RESULTS_LIMIT = 20;
+
+interface PartyOption {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+}
+
+interface PartyLookupProps {
+  /** Selected party id, or "" for none */
+  value: string;
+  onChange: (value: string) => void;
+  /** Label of the "no party" option and of the button when nothing is selected */
+  emptyLabel?: string;
+}
+
+const formatParty = (party: PartyOption) => `${party.partyName} (${party.accountNumber})`;
+
+/** Party picker that searches the server as you type, so every party can be found */
+export function PartyLookup({ value, onChange, emptyLabel = "All Parties" }: PartyLookupProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const { data, isFetching } = useQuery<{ parties: PartyOption[] }>({
+    queryKey: ["parties", "lookup", debouncedQuery],
+    queryFn: () =>
+      get("/parties", { page: 1, limit: RESULTS_LIMIT, search: debouncedQuery, sortBy: "partyName", sortOrder: "asc" }),
+    enabled: isOpen,
+    staleTime: 30000,
+  });
+
+  // The selected party may not be in the current results, e.g. when it comes from a shared URL
+  const { data: selectedParty } = useQuery<PartyOption>({
+    queryKey: ["party", value],
+    queryFn: () => get(`/parties/${value}`),
+    enabled: !!value,
+  });
+
+  const handleSelect = (nextValue: string) => {
+    onChange(nextValue);
+    setIsOpen(false);
+    setSearchQuery("");
+  };
+
+  const parties = data?.parties ?? [];
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="w-full justify-between font-normal">
+          <span className="truncate">
+            {!value ? emptyLabel : selectedParty ? formatParty(selectedParty) : `Party #${value}`}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[90vw] sm:w-[360px]" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search party..." value={searchQuery} onValueChange={setSearchQuery} />
+          <CommandList>
+            {isFetching && (
+              <div className="flex items-center justify-center py-3">
+                <LoaderCircle className="h-4 w-4 animate-spin" />
+              </div>
+            )}
+            {!isFetching && <CommandEmpty>No party found.</CommandEmpty>}
+            <CommandItem value="all" onSelect={() => handleSelect("")}>
+              <Check className={cn("mr-2 h-4 w-4", !value ? "opacity-100" : "opacity-0")} />
+              {emptyLabel}
+            </CommandItem>
+            {parties.map((party) => (
+              <CommandItem key={party.id} value={String(party.id)} onSelect={() => handleSelect(String(party.id))}>
+                <Check className={cn("mr-2 h-4 w-4", value === String(party.id) ? "opacity-100" : "opacity-0")} />
+                {formatParty(party)}
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
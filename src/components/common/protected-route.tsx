@@ -1,12 +1,21 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
+import { AppModule, Permission, PERMISSIONS, getAllowedRoles } from '@/config/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactElement;
   roles?: string[];
+  // Derives the allowed roles from the permission matrix when roles is not given
+  module?: AppModule;
+  permission?: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  roles,
+  module,
+  permission = PERMISSIONS.VIEW,
+}) => {
   const location = useLocation();
   const authToken = localStorage.getItem('authToken');
   const userStr = localStorage.getItem('user');
@@ -16,12 +25,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
     return <Navigate to="/" replace state={{ from: location, unauthorized: true }} />;
   }
 
-  // Check for role-based access if roles are specified
-  if (roles?.length && user?.role) {
-    const hasRequiredRole = roles.includes(user.role);
-    if (!hasRequiredRole) {
-      return <Navigate to="/unauthorized" replace state={{ from: location }} />;
-    }
+  const allowedRoles: string[] | undefined = roles ?? (module ? getAllowedRoles(module, permission) : undefined);
+
+  // Check for role-based access if roles are specified; an empty list grants nobody
+  if (allowedRoles && !(user?.role && allowedRoles.includes(user.role))) {
+    return <Navigate to="/unauthorized" replace state={{ from: location }} />;
   }
 
   return children;
@@ -0,0 +1,18 @@
+export const INTEREST_MODELS = {
+  FLAT_ON_BALANCE: "flat_balance",
+  FLAT_ON_PRINCIPAL: "flat_principal",
+  REDUCING_EMI: "reducing_emi",
+  COMPOUNDING: "compound",
+} as const;
+
+export const INTEREST_MODEL_LABELS = {
+  [INTEREST_MODELS.FLAT_ON_BALANCE]: "Flat on Balance",
+  [INTEREST_MODELS.FLAT_ON_PRINCIPAL]: "Flat on Original Principal",
+  [INTEREST_MODELS.REDUCING_EMI]: "Reducing Balance EMI",
+  [INTEREST_MODELS.COMPOUNDING]: "Compounding Unpaid Interest",
+} as const;
+
+export type InterestModel = (typeof INTEREST_MODELS)[keyof typeof INTEREST_MODELS];
+
+// Loans created before interest models existed are flat on balance
+export const DEFAULT_INTEREST_MODEL: InterestModel = INTEREST_MODELS.FLAT_ON_BALANCE;
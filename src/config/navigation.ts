@@ -0,0 +1,18 @@
+import { CalendarClock, ClipboardList, CreditCard, FileText, UsersRound, type LucideIcon } from "lucide-react";
+import { AppModule, MODULES } from "./permissions";
+
+export interface NavItem {
+  name: string;
+  url: string;
+  icon: LucideIcon;
+  // Shown only to roles with view permission on this module
+  module: AppModule;
+}
+
+export const NAV_ITEMS: NavItem[] = [
+  { name: "Party", url: "/parties", icon: UsersRound, module: MODULES.PARTIES },
+  { name: "Loan", url: "/loans", icon: CreditCard, module: MODULES.LOANS },
+  { name: "Due", url: "/collections-due", icon: CalendarClock, module: MODULES.COLLECTIONS },
+  { name: "Collections", url: "/collection-sheet", icon: ClipboardList, module: MODULES.COLLECTIONS },
+  { name: "Aging", url: "/reports/aging", icon: FileText, module: MODULES.REPORTS },
+];
@@ -0,0 +1,17 @@
+export const PAYMENT_MODES = {
+  CASH: "cash",
+  UPI: "upi",
+  CHEQUE: "cheque",
+  BANK_TRANSFER: "bank_transfer",
+} as const;
+
+export const PAYMENT_MODE_LABELS = {
+  [PAYMENT_MODES.CASH]: "Cash",
+  [PAYMENT_MODES.UPI]: "UPI",
+  [PAYMENT_MODES.CHEQUE]: "Cheque",
+  [PAYMENT_MODES.BANK_TRANSFER]: "Bank Transfer",
+} as const;
+
+export type PaymentMode = (typeof PAYMENT_MODES)[keyof typeof PAYMENT_MODES];
+
+export const DEFAULT_PAYMENT_MODE: PaymentMode = PAYMENT_MODES.CASH;
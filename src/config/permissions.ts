@@ -0,0 +1,108 @@
+import { ROLES, Role } from "./roles";
+
+export const PERMISSIONS = {
+  VIEW: "view",
+  CREATE: "create",
+  EDIT: "edit",
+  DELETE: "delete",
+  CLOSE: "close",
+  DAY_CLOSE: "day_close",
+  RESTORE: "restore",
+  MERGE: "merge",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const MODULES = {
+  PARTIES: "parties",
+  LOANS: "loans",
+  ENTRIES: "entries",
+  COLLECTIONS: "collections",
+  DAY_CLOSE: "day_close",
+  REPORTS: "reports",
+  REGISTERS: "registers",
+  USERS: "users",
+  RECYCLE_BIN: "recycle_bin",
+  AUDIT_LOG: "audit_log",
+  BRANCHES: "branches",
+  MIGRATION: "migration",
+} as const;
+
+export type AppModule = (typeof MODULES)[keyof typeof MODULES];
+
+const ALL_ROLES: Role[] = [ROLES.ADMIN, ROLES.BRANCH_ADMIN, ROLES.USER];
+const MANAGERS: Role[] = [ROLES.ADMIN, ROLES.BRANCH_ADMIN];
+const ADMIN_ONLY: Role[] = [ROLES.ADMIN];
+
+// Roles granted each permission per module; a permission missing from a module is granted to nobody
+export const PERMISSION_MATRIX: Record<AppModule, Partial<Record<Permission, Role[]>>> = {
+  [MODULES.PARTIES]: {
+    view: ALL_ROLES,
+    create: ALL_ROLES,
+    edit: MANAGERS,
+    delete: MANAGERS,
+    // Merging moves loans onto one party and deletes the rest, so it cannot be undone
+    merge: ADMIN_ONLY,
+  },
+  [MODULES.LOANS]: {
+    view: ALL_ROLES,
+    create: ALL_ROLES,
+    edit: MANAGERS,
+    delete: MANAGERS,
+    close: MANAGERS,
+  },
+  [MODULES.ENTRIES]: {
+    view: ALL_ROLES,
+    create: ALL_ROLES,
+    edit: MANAGERS,
+    delete: MANAGERS,
+  },
+  [MODULES.COLLECTIONS]: {
+    view: ALL_ROLES,
+    create: ALL_ROLES,
+  },
+  [MODULES.DAY_CLOSE]: {
+    view: MANAGERS,
+    day_close: MANAGERS,
+    // Reopening a closed day
+    edit: ADMIN_ONLY,
+  },
+  [MODULES.REPORTS]: {
+    view: MANAGERS,
+  },
+  [MODULES.REGISTERS]: {
+    view: ALL_ROLES,
+  },
+  [MODULES.USERS]: {
+    view: ADMIN_ONLY,
+    create: ADMIN_ONLY,
+    edit: ADMIN_ONLY,
+    delete: ADMIN_ONLY,
+  },
+  [MODULES.RECYCLE_BIN]: {
+    view: MANAGERS,
+    restore: MANAGERS,
+    delete: ADMIN_ONLY,
+    // Retention period
+    edit: ADMIN_ONLY,
+  },
+  [MODULES.AUDIT_LOG]: {
+    view: ADMIN_ONLY,
+  },
+  [MODULES.BRANCHES]: {
+    view: ADMIN_ONLY,
+    create: ADMIN_ONLY,
+    edit: ADMIN_ONLY,
+  },
+  // Importing loan history from the previous system
+  [MODULES.MIGRATION]: {
+    view: ADMIN_ONLY,
+    create: ADMIN_ONLY,
+  },
+};
+
+export const getAllowedRoles = (module: AppModule, permission: Permission): Role[] =>
+  PERMISSION_MATRIX[module][permission] ?? [];
+
+export const hasPermission = (role: string | null | undefined, module: AppModule, permission: Permission) =>
+  !!role && getAllowedRoles(module, permission).includes(role as Role);
@@ -1,22 +1,31 @@
-import { createContext, useContext, useCallback, useMemo } from 'react';
+import { createContext, useContext, useCallback, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { setSelectedBranchId } from '@/lib/branchSelection';
+import { setSessionExpiredHandler } from '@/services/apiService';
+
+// Where to send the user back to after logging in again
+interface ReturnTo {
+  pathname: string;
+  search?: string;
+}
 
 interface AuthContextType {
   user: any | null;
   isAuthenticated: boolean;
   login: (token: string, userData: any) => void;
-  logout: () => void;
+  logout: (options?: { returnTo?: ReturnTo; sessionExpired?: boolean }) => void;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
-  const user = useMemo(() => {
-    const userStr = localStorage.getItem('user');
-    return userStr ? JSON.parse(userStr) : null;
-  }, []);
+  // Login writes localStorage directly, so read it on every render and only re-parse when it changes
+  const userStr = localStorage.getItem('user');
+  const user = useMemo(() => (userStr ? JSON.parse(userStr) : null), [userStr]);
 
   const isAuthenticated = Boolean(localStorage.getItem('authToken'));
 
@@ -26,11 +35,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     navigate('/users');
   }, [navigate]);
 
-  const logout = useCallback(() => {
+  const logout = useCallback((options?: { returnTo?: ReturnTo; sessionExpired?: boolean }) => {
     localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
-    navigate('/', { replace: true });
-  }, [navigate]);
+    setSelectedBranchId(null);
+    // Drop cached data so the next user never sees the previous user's records
+    queryClient.clear();
+    navigate('/', {
+      replace: true,
+      state: options?.returnTo ? { from: options.returnTo, sessionExpired: options.sessionExpired } : undefined,
+    });
+  }, [navigate, queryClient]);
+
+  // apiService calls this when a 401 cannot be fixed by refreshing the token
+  useEffect(() => {
+    setSessionExpiredHandler(() =>
+      logout({
+        returnTo: { pathname: window.location.pathname, search: window.location.search },
+        sessionExpired: true,
+      })
+    );
+    return () => setSessionExpiredHandler(null);
+  }, [logout]);
 
   const value = useMemo(
     () => ({
@@ -0,0 +1,71 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { get } from '@/services/apiService';
+import { ROLES } from '@/config/roles';
+import { getSelectedBranchId, setSelectedBranchId, subscribeToBranchSelection } from '@/lib/branchSelection';
+import { Branch, BranchesResponse } from '@/modules/Branches/branchTypes';
+
+interface BranchMethods {
+  branches: Branch[];
+  // Branch the user belongs to, as stored at login
+  userBranch: Branch | null;
+  // Branch currently chosen in the switcher; null means all branches
+  selectedBranchId: number | null;
+  selectedBranch: Branch | null;
+  // Head-office admins can switch branches and see all branches consolidated
+  isHeadOffice: boolean;
+  // True when a head-office user is looking at every branch at once
+  isAllBranches: boolean;
+  switchBranch: (branchId: number | null) => void;
+}
+
+const getStoredUser = () => {
+  const userStr = localStorage.getItem('user');
+  if (!userStr) return null;
+  try {
+    return JSON.parse(userStr);
+  } catch (e) {
+    console.error("Failed to parse user data from localStorage", e);
+    return null;
+  }
+};
+
+export function useBranch(): BranchMethods {
+  const queryClient = useQueryClient();
+  const selectedBranchId = useSyncExternalStore(subscribeToBranchSelection, getSelectedBranchId);
+
+  const user = getStoredUser();
+  const userBranch: Branch | null = user?.branch ?? null;
+  const isHeadOffice = user?.role === ROLES.ADMIN && (!user?.branchId || !!userBranch?.isHeadOffice);
+
+  const { data } = useQuery<BranchesResponse>({
+    queryKey: ['branches'],
+    queryFn: () => get('/branches'),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const branches = data?.branches ?? [];
+  const selectedBranch = isHeadOffice
+    ? branches.find((branch) => branch.id === selectedBranchId) ?? null
+    : userBranch;
+
+  const switchBranch = useCallback(
+    (branchId: number | null) => {
+      setSelectedBranchId(branchId);
+      // Every cached list belongs to the previous branch, so refetch them all
+      queryClient.resetQueries();
+    },
+    [queryClient]
+  );
+
+  return {
+    branches,
+    userBranch,
+    selectedBranchId: isHeadOffice ? selectedBranchId : userBranch?.id ?? null,
+    selectedBranch,
+    isHeadOffice,
+    isAllBranches: isHeadOffice && selectedBranchId === null,
+    switchBranch,
+  };
+}
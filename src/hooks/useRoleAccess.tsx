@@ -1,8 +1,11 @@
 import { useAuth } from './useAuth';
+import { AppModule, Permission, hasPermission } from '@/config/permissions';
 
 interface RoleAccessMethods {
   isAdmin: boolean;
   checkIsAdmin: () => boolean;
+  role: string | null;
+  can: (module: AppModule, permission: Permission) => boolean;
 }
 
 export function useRoleAccess(): RoleAccessMethods {
@@ -34,8 +37,15 @@ export function useRoleAccess(): RoleAccessMethods {
   // Pre-computed property for common check
   const isAdmin = checkIsAdmin();
 
+  const role: string | null = user?.role ?? null;
+
+  // Looks the user's role up in the permission matrix
+  const can = (module: AppModule, permission: Permission): boolean => hasPermission(role, module, permission);
+
   return {
     isAdmin,
-    checkIsAdmin
+    checkIsAdmin,
+    role,
+    can
   };
 } 
\ No newline at end of file
@@ -0,0 +1,64 @@
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+const twoDigitsInWords = (value: number): string => {
+  if (value < 20) return ONES[value];
+  return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(" ");
+};
+
+const threeDigitsInWords = (value: number): string => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? twoDigitsInWords(rest) : ""]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/** Whole number in words using the Indian system (thousand, lakh, crore) */
+export const numberInWords = (value: number): string => {
+  if (value === 0) return "Zero";
+  const crores = Math.floor(value / 10000000);
+  const lakhs = Math.floor((value % 10000000) / 100000);
+  const thousands = Math.floor((value % 100000) / 1000);
+  const rest = value % 1000;
+
+  return [
+    crores ? `${numberInWords(crores)} Crore` : "",
+    lakhs ? `${twoDigitsInWords(lakhs)} Lakh` : "",
+    thousands ? `${twoDigitsInWords(thousands)} Thousand` : "",
+    rest ? threeDigitsInWords(rest) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/** e.g. 125050.5 → "Rupees One Lakh Twenty Five Thousand Fifty and Fifty Paise Only" */
+export const amountInWords = (amount: number): string => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  const words = `Rupees ${numberInWords(rupees)}${paise ? ` and ${twoDigitsInWords(paise)} Paise` : ""} Only`;
+  return amount < 0 ? `Minus ${words}` : words;
+};
@@ -0,0 +1,28 @@
+// Branch chosen by a head-office user in the branch switcher. It is sent with every API request
+// as the X-Branch-Id header; without it the server uses the user's own branch, or all branches for head office.
+const STORAGE_KEY = "selectedBranchId";
+
+export const BRANCH_HEADER = "X-Branch-Id";
+
+const listeners = new Set<() => void>();
+
+export const getSelectedBranchId = (): number | null => {
+  const value = localStorage.getItem(STORAGE_KEY);
+  return value ? Number(value) : null;
+};
+
+export const setSelectedBranchId = (branchId: number | null) => {
+  if (branchId === null) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, String(branchId));
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToBranchSelection = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
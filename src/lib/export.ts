@@ -0,0 +1,92 @@
+import { saveAs } from "file-saver";
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Quote a value for CSV when it contains a delimiter, quote or line break
+const escapeCsvCell = (value: CsvCell): string => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Builds a CSV file from a header row and data rows and triggers a download.
+ * A BOM is prepended so Excel opens the file as UTF-8 (₹ and Indian names).
+ */
+export const downloadCsv = (filename: string, headers: string[], rows: CsvCell[][]) => {
+  const lines = [headers, ...rows].map((row) => row.map(escapeCsvCell).join(","));
+  const blob = new Blob(["\uFEFF" + lines.join("\r\n")], {
+    type: "text/csv;charset=utf-8",
+  });
+  saveAs(blob, filename);
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const toExcelCell = (value: CsvCell): string => {
+  if (value === null || value === undefined || value === "") return "<Cell/>";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`;
+  }
+  return `<Cell><Data ss:Type="String">${escapeXml(String(value))}</Data></Cell>`;
+};
+
+/**
+ * Builds an Excel workbook (SpreadsheetML, opens natively in Excel and
+ * LibreOffice) with one sheet and triggers a download. Numbers are kept
+ * numeric so totals can be summed in the sheet.
+ */
+export const downloadExcel = (
+  filename: string,
+  sheetName: string,
+  headers: string[],
+  rows: CsvCell[][]
+) => {
+  const xmlRows = [
+    `<Row ss:StyleID="header">${headers.map(toExcelCell).join("")}</Row>`,
+    ...rows.map((row) => `<Row>${row.map(toExcelCell).join("")}</Row>`),
+  ];
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8"?><?mso-application progid="Excel.Sheet"?>' +
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" ' +
+    'xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">' +
+    '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>' +
+    `<Worksheet ss:Name="${escapeXml(sheetName.slice(0, 31))}"><Table>${xmlRows.join("")}</Table></Worksheet>` +
+    "</Workbook>";
+  const blob = new Blob([workbook], { type: "application/vnd.ms-excel;charset=utf-8" });
+  saveAs(blob, filename);
+};
+
+/**
+ * Opens the given element in a new window with the app stylesheets and
+ * shows the browser print dialog ("Save as PDF" is available there).
+ * Returns false when the popup was blocked.
+ */
+export const printElement = (element: HTMLElement, title: string): boolean => {
+  const printWindow = window.open("", "_blank", "width=1000,height=700");
+  if (!printWindow) return false;
+
+  const styles = Array.from(document.querySelectorAll('link[rel="stylesheet"], style'))
+    .map((node) => node.outerHTML)
+    .join("");
+
+  printWindow.document.write(
+    `<!doctype html><html><head><title>${title}</title>${styles}</head>` +
+      `<body class="bg-white text-black p-6">${element.outerHTML}</body></html>`
+  );
+  printWindow.document.close();
+  printWindow.onload = () => {
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+  };
+  return true;
+};
@@ -0,0 +1,38 @@
+import { addMonths, addYears, endOfMonth, startOfMonth } from "date-fns";
+
+// Indian financial year runs from 1 April to 31 March
+const FISCAL_YEAR_START_MONTH = 3;
+
+export const getFiscalYearStart = (date: Date): Date => {
+  const year = date.getMonth() >= FISCAL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, FISCAL_YEAR_START_MONTH, 1);
+};
+
+export const getFiscalYearEnd = (date: Date): Date =>
+  endOfMonth(addMonths(getFiscalYearStart(date), 11));
+
+/** e.g. "2025-26" for any date between 1 April 2025 and 31 March 2026 */
+export const getFiscalYearLabel = (date: Date): string => {
+  const startYear = getFiscalYearStart(date).getFullYear();
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+};
+
+export interface FiscalYearPreset {
+  label: string;
+  start: Date;
+  months: number;
+}
+
+export const getFiscalYearPresets = (today: Date = new Date()): FiscalYearPreset[] => {
+  const currentStart = getFiscalYearStart(today);
+  return [
+    { label: `Current FY (${getFiscalYearLabel(today)})`, start: currentStart, months: 12 },
+    {
+      label: `Previous FY (${getFiscalYearLabel(addYears(today, -1))})`,
+      start: addYears(currentStart, -1),
+      months: 12,
+    },
+    { label: "Last 3 Months", start: startOfMonth(addMonths(today, -2)), months: 3 },
+    { label: "Last 6 Months", start: startOfMonth(addMonths(today, -5)), months: 6 },
+  ];
+};
@@ -0,0 +1,158 @@
+export interface SpreadsheetData {
+  headers: string[];
+  /** Data rows, each padded to the header length */
+  rows: string[][];
+}
+
+/** RFC 4180 style CSV parsing: quoted fields, doubled quotes and CRLF line breaks */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// -------------------- XLSX (zip of XML parts) --------------------
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads the central directory and returns the uncompressed contents of the requested parts
+const readZipEntries = async (buffer: ArrayBuffer, wanted: (name: string) => boolean) => {
+  const view = new DataView(buffer);
+  let eocd = buffer.byteLength - 22;
+  while (eocd >= 0 && view.getUint32(eocd, true) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("The file is not a valid XLSX workbook");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: Record<string, string> = {};
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (wanted(name)) {
+      const dataStart =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      entries[name] = decoder.decode(method === 0 ? data : await inflateRaw(data));
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/[0-9]/g, "");
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const getText = (element: Element): string =>
+  Array.from(element.getElementsByTagName("t"))
+    .map((t) => t.textContent ?? "")
+    .join("");
+
+/** Reads the first worksheet of an XLSX workbook as rows of display strings */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(
+    buffer,
+    (name) => name === "xl/sharedStrings.xml" || name.startsWith("xl/worksheets/sheet")
+  );
+  const sheetName =
+    "xl/worksheets/sheet1.xml" in entries
+      ? "xl/worksheets/sheet1.xml"
+      : Object.keys(entries).find((name) => name.startsWith("xl/worksheets/"));
+  if (!sheetName) throw new Error("The workbook has no worksheets");
+
+  const parser = new DOMParser();
+  const sharedStrings = entries["xl/sharedStrings.xml"]
+    ? Array.from(
+        parser.parseFromString(entries["xl/sharedStrings.xml"], "application/xml").getElementsByTagName("si")
+      ).map(getText)
+    : [];
+
+  const sheet = parser.parseFromString(entries[sheetName], "application/xml");
+  return Array.from(sheet.getElementsByTagName("row")).map((rowElement) => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName("c")).forEach((cell, position) => {
+      const ref = cell.getAttribute("r");
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute("t");
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      row[index] =
+        type === "s" ? sharedStrings[Number(value)] ?? "" : type === "inlineStr" ? getText(cell) : value;
+    });
+    return Array.from(row, (value) => value ?? "");
+  });
+};
+
+/** Excel stores dates as days since 1899-12-30; converts such a serial to yyyy-MM-dd */
+export const excelSerialToIsoDate = (serial: number): string =>
+  new Date(Math.round((serial - 25569) * 86400 * 1000)).toISOString().split("T")[0];
+
+/**
+ * Reads an uploaded CSV or XLSX file. The first non-empty row is taken as the header row
+ * and fully empty rows are dropped.
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  let table: string[][];
+  if (extension === "csv") {
+    table = parseCsv(await file.text());
+  } else if (extension === "xlsx") {
+    table = await parseXlsx(await file.arrayBuffer());
+  } else {
+    throw new Error("Please upload a .csv or .xlsx file");
+  }
+
+  const nonEmpty = table.filter((row) => row.some((cell) => cell.trim() !== ""));
+  if (nonEmpty.length === 0) throw new Error("The file is empty");
+
+  const headers = nonEmpty[0].map((header) => header.trim());
+  const rows = nonEmpty
+    .slice(1)
+    .map((row) => headers.map((_, index) => (row[index] ?? "").trim()));
+  return { headers, rows };
+};
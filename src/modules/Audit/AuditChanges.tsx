@@ -0,0 +1,37 @@
+import React from "react";
+import { AuditChange, formatAuditValue, humanizeAuditField } from "./auditTypes";
+
+interface AuditChangesProps {
+  changes: AuditChange[];
+}
+
+const AuditChanges: React.FC<AuditChangesProps> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded.</p>;
+  }
+
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead>
+        <tr className="bg-muted/50">
+          <th className="border p-2 text-left">Field</th>
+          <th className="border p-2 text-left">Before</th>
+          <th className="border p-2 text-left">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field}>
+            <td className="border p-2 font-medium">{humanizeAuditField(change.field)}</td>
+            <td className="border p-2 text-red-600 line-through decoration-red-300">
+              {formatAuditValue(change.before)}
+            </td>
+            <td className="border p-2 text-green-700">{formatAuditValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default AuditChanges;
@@ -0,0 +1,73 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { LoaderCircle } from "lucide-react";
+import { get, ApiError } from "@/services/apiService";
+import AuditChanges from "./AuditChanges";
+import {
+  AUDIT_ACTION_BADGE_CLASSES,
+  AUDIT_ACTION_LABELS,
+  AuditEntityType,
+  AuditLogsResponse,
+  formatAuditTimestamp,
+} from "./auditTypes";
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: number;
+}
+
+// Timeline of a single record, newest first
+const AuditHistory: React.FC<AuditHistoryProps> = ({ entityType, entityId }) => {
+  const { data, isLoading, isError, error } = useQuery<AuditLogsResponse>({
+    queryKey: ["auditLogs", entityType, entityId],
+    queryFn: () => get("/audit-logs", { entityType, entityId, page: 1, limit: 100, sortOrder: "desc" }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center text-destructive py-4">
+        {(error as ApiError)?.message || "Failed to load history"}
+      </div>
+    );
+  }
+
+  const auditLogs = data?.auditLogs ?? [];
+
+  if (auditLogs.length === 0) {
+    return <p className="text-center text-muted-foreground py-6">No history recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-6 border-l pl-6">
+      {auditLogs.map((log) => (
+        <li key={log.id} className="relative">
+          <span className="absolute -left-[1.9rem] top-1 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge className={AUDIT_ACTION_BADGE_CLASSES[log.action]} variant={AUDIT_ACTION_BADGE_CLASSES[log.action] ? "default" : "secondary"}>
+              {AUDIT_ACTION_LABELS[log.action] ?? log.action}
+            </Badge>
+            <span className="font-medium">{log.actor?.name ?? "System"}</span>
+            <span className="text-muted-foreground">{formatAuditTimestamp(log.createdAt)}</span>
+          </div>
+          {log.reason && <p className="mt-1 text-sm text-muted-foreground">Reason: {log.reason}</p>}
+          {log.changes.length > 0 && (
+            <div className="mt-2">
+              <AuditChanges changes={log.changes} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default AuditHistory;
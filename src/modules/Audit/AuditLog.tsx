@@ -0,0 +1,318 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { ChevronDown, ChevronRight, LoaderCircle, X } from "lucide-react";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get, ApiError } from "@/services/apiService";
+import AuditChanges from "./AuditChanges";
+import {
+  AUDIT_ACTION_BADGE_CLASSES,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogsResponse,
+  formatAuditTimestamp,
+} from "./auditTypes";
+
+interface AuditFilters {
+  entityType: string;
+  action: string;
+  actorId: string;
+  entityId: string;
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  entityType: "all",
+  action: "all",
+  actorId: "all",
+  entityId: "",
+  fromDate: "",
+  toDate: "",
+};
+
+const getRecordLink = (log: AuditLogEntry) => {
+  if (log.action === "purge") return null;
+  if (log.entityType === "party") return `/parties/${log.entityId}`;
+  if (log.entityType === "loan") return `/entries?loanId=${log.entityId}`;
+  return null;
+};
+
+const AuditLog = () => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [recordsPerPage, setRecordsPerPage] = useState(20);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+
+  const { data: usersData } = useQuery<{ users: { id: number; name: string }[] }>({
+    queryKey: ["users", "auditActors"],
+    queryFn: () => get("/users", { page: 1, limit: 1000, sortBy: "name", sortOrder: "asc" }),
+  });
+
+  const { data, isLoading, isError, error } = useQuery<AuditLogsResponse>({
+    queryKey: ["auditLogs", currentPage, recordsPerPage, filters],
+    queryFn: () =>
+      get("/audit-logs", {
+        page: currentPage,
+        limit: recordsPerPage,
+        sortOrder: "desc",
+        entityType: filters.entityType !== "all" ? filters.entityType : undefined,
+        action: filters.action !== "all" ? filters.action : undefined,
+        actorId: filters.actorId !== "all" ? filters.actorId : undefined,
+        entityId: filters.entityId || undefined,
+        fromDate: filters.fromDate || undefined,
+        toDate: filters.toDate || undefined,
+      }),
+    placeholderData: keepPreviousData,
+  });
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setCurrentPage(1);
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpandedIds((current) => (current.includes(id) ? current.filter((expandedId) => expandedId !== id) : [...current, id]));
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+  const auditLogs = data?.auditLogs ?? [];
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Audit Log
+          <CardDescription>Who created, edited, deleted or closed what, and when</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+            <div className="grid gap-1">
+              <Label>Record type</Label>
+              <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {AUDIT_ENTITY_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {AUDIT_ACTION_LABELS[action]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label>User</Label>
+              <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {usersData?.users?.map((user) => (
+                    <SelectItem key={user.id} value={String(user.id)}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="auditEntityId">Record ID</Label>
+              <Input
+                id="auditEntityId"
+                type="number"
+                placeholder="Any"
+                value={filters.entityId}
+                onChange={(e) => updateFilter("entityId", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="auditFromDate">From</Label>
+              <Input
+                id="auditFromDate"
+                type="date"
+                value={filters.fromDate}
+                max={filters.toDate || undefined}
+                onChange={(e) => updateFilter("fromDate", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="auditToDate">To</Label>
+              <Input
+                id="auditToDate"
+                type="date"
+                value={filters.toDate}
+                min={filters.fromDate || undefined}
+                onChange={(e) => updateFilter("toDate", e.target.value)}
+              />
+            </div>
+          </div>
+          {hasFilters && (
+            <div className="flex justify-end mb-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setFilters(EMPTY_FILTERS);
+                  setCurrentPage(1);
+                }}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-4">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : isError ? (
+            <div className="text-center text-destructive py-4">
+              {(error as ApiError)?.message || "Failed to load audit log"}
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50 hover:bg-muted/50">
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {auditLogs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center">
+                          No audit records found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      auditLogs.map((log) => {
+                        const isExpanded = expandedIds.includes(log.id);
+                        const recordLink = getRecordLink(log);
+                        const recordLabel = `${AUDIT_ENTITY_LABELS[log.entityType] ?? log.entityType} #${log.entityId}`;
+                        return (
+                          <React.Fragment key={log.id}>
+                            <TableRow>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => toggleExpanded(log.id)}
+                                  disabled={log.changes.length === 0 && !log.reason}
+                                  aria-label={isExpanded ? "Hide changes" : "Show changes"}
+                                >
+                                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                </Button>
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">{formatAuditTimestamp(log.createdAt)}</TableCell>
+                              <TableCell>{log.actor?.name ?? "System"}</TableCell>
+                              <TableCell>
+                                <Badge
+                                  className={AUDIT_ACTION_BADGE_CLASSES[log.action]}
+                                  variant={AUDIT_ACTION_BADGE_CLASSES[log.action] ? "default" : "secondary"}
+                                >
+                                  {AUDIT_ACTION_LABELS[log.action] ?? log.action}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                {recordLink ? (
+                                  <Link to={recordLink} className="font-medium hover:underline">
+                                    {recordLabel}
+                                  </Link>
+                                ) : (
+                                  recordLabel
+                                )}
+                              </TableCell>
+                              <TableCell className="text-muted-foreground">
+                                {log.changes.length > 0 ? `${log.changes.length} field(s)` : "—"}
+                              </TableCell>
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow className="hover:bg-transparent">
+                                <TableCell></TableCell>
+                                <TableCell colSpan={5} className="space-y-2">
+                                  {log.reason && <p className="text-sm text-muted-foreground">Reason: {log.reason}</p>}
+                                  {log.changes.length > 0 && <AuditChanges changes={log.changes} />}
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </React.Fragment>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="mt-4">
+                <CustomPagination
+                  currentPage={currentPage}
+                  totalPages={data?.totalPages || 1}
+                  totalRecords={data?.totalAuditLogs || 0}
+                  recordsPerPage={recordsPerPage}
+                  onPageChange={setCurrentPage}
+                  onRecordsPerPageChange={(newRecordsPerPage) => {
+                    setRecordsPerPage(newRecordsPerPage);
+                    setCurrentPage(1);
+                  }}
+                />
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,91 @@
+import { format } from "date-fns";
+
+export type AuditEntityType = "loan" | "party" | "entry" | "user";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "restore"
+  | "purge"
+  | "close"
+  | "reopen"
+  | "reverse"
+  | "merge"
+  | "status_change";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  loan: "Loan",
+  party: "Party",
+  entry: "Entry",
+  user: "User",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Permanently deleted",
+  close: "Closed",
+  reopen: "Reopened",
+  reverse: "Reversed",
+  merge: "Merged",
+  status_change: "Status changed",
+};
+
+export const AUDIT_ACTION_BADGE_CLASSES: Partial<Record<AuditAction, string>> = {
+  create: "bg-green-600 hover:bg-green-600",
+  delete: "bg-red-600 hover:bg-red-600",
+  purge: "bg-red-600 hover:bg-red-600",
+  close: "bg-amber-600 hover:bg-amber-600",
+};
+
+export type AuditValue = string | number | boolean | null;
+
+/** One field as it was before and after the action; before is null on create, after is null on delete */
+export interface AuditChange {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  actor: {
+    id: number;
+    name: string;
+  } | null;
+  createdAt: string;
+  changes: AuditChange[];
+  /** Free-text note sent with the action, such as a merge or reopen reason */
+  reason?: string | null;
+}
+
+export interface AuditLogsResponse {
+  auditLogs: AuditLogEntry[];
+  totalPages: number;
+  totalAuditLogs: number;
+}
+
+export const formatAuditTimestamp = (value: string) => format(new Date(value), "dd MMM yyyy, hh:mm a");
+
+// "balanceAmount" -> "Balance Amount", "mobile1" -> "Mobile 1"
+export const humanizeAuditField = (field: string) =>
+  field
+    .replace(/([a-z])([A-Z0-9])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .replace(/^./, (first) => first.toUpperCase());
+
+export const formatAuditValue = (value: AuditValue) => {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  // ISO timestamps from the server read better as dates
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "dd/MM/yyyy");
+  }
+  return String(value);
+};
@@ -1,4 +1,4 @@
-import { useEffect } from "react"; // Removed useState as it's not needed for isLoading
+import { useEffect, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { useForm, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -66,9 +66,17 @@ const Login = () => {
     resolver: zodResolver(loginSchema),
   });
 
+  // Page to return to after logging in, kept after the state below is cleared
+  const [returnTo] = useState<string | null>(() => {
+    const from = location.state?.from;
+    return from?.pathname && from.pathname !== "/" ? `${from.pathname}${from.search ?? ""}` : null;
+  });
+
   useEffect(() => {
-    if (location.state?.unauthorized) {
-      toast.error("You are not authorized.");
+    if (location.state?.unauthorized || location.state?.sessionExpired) {
+      toast.error(
+        location.state.sessionExpired ? "Your session has expired. Please log in again." : "You are not authorized."
+      );
       setTimeout(() => {
         navigate(location.pathname, { replace: true, state: {} });
       }, 0);
@@ -95,7 +103,7 @@ const Login = () => {
       }
       
       // queryClient.invalidateQueries(...) // Consider invalidating relevant queries
-      navigate("/loans");
+      navigate(returnTo ?? "/loans");
       toast.success("Login successful!");
     },
     onError: (error: ApiErrorResponse) => {
@@ -0,0 +1,40 @@
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { ROLE_LABELS } from "@/config/roles";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+
+const Unauthorized = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { role } = useRoleAccess();
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname;
+  const roleLabel = role ? ROLE_LABELS[role as keyof typeof ROLE_LABELS] ?? role : null;
+
+  return (
+    <div className="flex items-center justify-center p-6 min-h-[60vh]">
+      <Card className="max-w-md w-full border border-border text-center">
+        <CardHeader className="items-center space-y-2">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto" />
+          <div className="text-xl font-bold">Access denied</div>
+          <CardDescription>
+            {roleLabel ? `Your role (${roleLabel}) does not` : "You do not"} have permission to open{" "}
+            {from ? <span className="font-medium text-foreground">{from}</span> : "this page"}. Ask an administrator if
+            you need access.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center gap-3">
+          <Button variant="outline" onClick={() => navigate(-1)}>
+            Go back
+          </Button>
+          <Button asChild>
+            <Link to="/loans">Go to Loans</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Unauthorized;
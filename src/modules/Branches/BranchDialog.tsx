@@ -0,0 +1,140 @@
+import React, { useEffect } from "react";
+import { useForm, SubmitHandler } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { LoaderCircle } from "lucide-react";
+import { post, put, ApiError } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import { Branch } from "./branchTypes";
+
+const branchFormSchema = z.object({
+  name: z.string().min(1, "Branch name is required").max(255, "Branch name must not exceed 255 characters"),
+  code: z.string().min(1, "Branch code is required").max(20, "Branch code must not exceed 20 characters"),
+  address: z.string().max(255, "Address must not exceed 255 characters").optional(),
+  isHeadOffice: z.boolean(),
+});
+
+type BranchFormInputs = z.infer<typeof branchFormSchema>;
+
+interface BranchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Branch being edited; omitted when adding a new one
+  branch?: Branch | null;
+}
+
+const BranchDialog: React.FC<BranchDialogProps> = ({ isOpen, onClose, branch }) => {
+  const queryClient = useQueryClient();
+  const isEdit = !!branch;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    setError,
+    formState: { errors },
+  } = useForm<BranchFormInputs>({
+    resolver: zodResolver(branchFormSchema),
+  });
+
+  const isHeadOffice = watch("isHeadOffice");
+
+  useEffect(() => {
+    if (isOpen) {
+      reset({
+        name: branch?.name ?? "",
+        code: branch?.code ?? "",
+        address: branch?.address ?? "",
+        isHeadOffice: branch?.isHeadOffice ?? false,
+      });
+    }
+  }, [isOpen, branch, reset]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: BranchFormInputs) => (isEdit ? put(`/branches/${branch?.id}`, data) : post("/branches", data)),
+    onSuccess: () => {
+      toast.success(isEdit ? "Branch updated successfully" : "Branch created successfully");
+      queryClient.invalidateQueries({ queryKey: ["branches"] });
+      onClose();
+    },
+    onError: (error: ApiError) => {
+      Validate(error, setError);
+      toast.error(error.message || `Failed to ${isEdit ? "update" : "create"} branch`);
+    },
+  });
+
+  const onSubmit: SubmitHandler<BranchFormInputs> = (data) => {
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogHeader>
+            <DialogTitle>{isEdit ? "Edit Branch" : "Add Branch"}</DialogTitle>
+            <DialogDescription>
+              Parties, loans and users are kept separate per branch.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="branchName">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input id="branchName" placeholder="Main Branch" {...register("name")} />
+              {errors.name && <span className="text-xs text-destructive">{errors.name.message}</span>}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="branchCode">
+                Code <span className="text-red-500">*</span>
+              </Label>
+              <Input id="branchCode" placeholder="MB01" {...register("code")} />
+              {errors.code && <span className="text-xs text-destructive">{errors.code.message}</span>}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="branchAddress">Address</Label>
+              <Input id="branchAddress" placeholder="Enter address" {...register("address")} />
+              {errors.address && <span className="text-xs text-destructive">{errors.address.message}</span>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="branchIsHeadOffice"
+                checked={isHeadOffice}
+                onCheckedChange={(checked) => setValue("isHeadOffice", checked)}
+              />
+              <Label htmlFor="branchIsHeadOffice">Head office</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <LoaderCircle className="h-4 w-4 animate-spin mr-2" />}
+              {isEdit ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BranchDialog;
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LoaderCircle, PenSquare, PlusCircle } from "lucide-react";
+import { get, ApiError } from "@/services/apiService";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
+import BranchDialog from "./BranchDialog";
+import { Branch, BranchesResponse } from "./branchTypes";
+
+const BranchList = () => {
+  const { can } = useRoleAccess();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editBranch, setEditBranch] = useState<Branch | null>(null);
+
+  const { data, isLoading, isError, error } = useQuery<BranchesResponse>({
+    queryKey: ["branches"],
+    queryFn: () => get("/branches"),
+  });
+
+  const openDialog = (branch: Branch | null) => {
+    setEditBranch(branch);
+    setIsDialogOpen(true);
+  };
+
+  const branches = data?.branches ?? [];
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              Branches
+              <CardDescription className="font-normal">
+                Every party, loan and user belongs to one branch
+              </CardDescription>
+            </div>
+            {can(MODULES.BRANCHES, PERMISSIONS.CREATE) && (
+              <Button onClick={() => openDialog(null)}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Branch
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-4">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : isError ? (
+            <div className="text-center text-destructive py-4">
+              {(error as ApiError)?.message || "Failed to load branches"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {branches.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center">
+                        No branches found.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    branches.map((branch) => (
+                      <TableRow key={branch.id}>
+                        <TableCell className="font-medium">{branch.code}</TableCell>
+                        <TableCell>
+                          {branch.name}
+                          {branch.isHeadOffice && (
+                            <Badge variant="secondary" className="ml-2">
+                              Head office
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{branch.address || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {can(MODULES.BRANCHES, PERMISSIONS.EDIT) && (
+                            <Button variant="ghost" size="icon" onClick={() => openDialog(branch)}>
+                              <PenSquare className="h-4 w-4" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BranchDialog isOpen={isDialogOpen} onClose={() => setIsDialogOpen(false)} branch={editBranch} />
+    </div>
+  );
+};
+
+export default BranchList;
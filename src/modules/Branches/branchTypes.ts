@@ -0,0 +1,18 @@
+export interface Branch {
+  id: number;
+  name: string;
+  code: string;
+  address?: string | null;
+  isHeadOffice: boolean;
+}
+
+export interface BranchesResponse {
+  branches: Branch[];
+}
+
+// Shape of the branch fields included on parties, loans and users
+export interface BranchRef {
+  id: number;
+  name: string;
+  code: string;
+}
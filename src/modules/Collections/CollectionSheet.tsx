@@ -0,0 +1,480 @@
+import React, { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { CheckCircle, LoaderCircle, Search, Send, XCircle } from "lucide-react";
+import { post, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { applyInterestCap } from "@/modules/Loans/entryValidation";
+import { fetchAllOpenLoans } from "./openLoans";
+import { fetchLoanDetails, getPendingInterest, LoanEntryDetails } from "./loanDetails";
+import { PAYMENT_MODES, PAYMENT_MODE_LABELS, PaymentMode } from "@/config/paymentModes";
+import {
+  EMPTY_PAYMENT_DETAILS,
+  PaymentDetails,
+  toPaymentPayload,
+  validatePaymentDetails,
+} from "@/modules/Loans/paymentDetails";
+
+interface OpenLoan {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  interest: number;
+  party?: {
+    partyName: string;
+    accountNumber: string;
+    mobile1: string;
+  };
+}
+
+interface RowInput {
+  receivedInterest: string;
+  receivedAmount: string;
+  payment: PaymentDetails;
+}
+
+type AmountField = "receivedInterest" | "receivedAmount";
+
+const EMPTY_ROW_INPUT: RowInput = { receivedInterest: "", receivedAmount: "", payment: EMPTY_PAYMENT_DETAILS };
+
+interface BatchResult {
+  loanId: number;
+  success: boolean;
+  entryId?: number;
+  message?: string;
+}
+
+interface ReportRow extends BatchResult {
+  partyName: string;
+  receivedInterest: number;
+  receivedAmount: number;
+}
+
+const getTodayDate = () => new Date().toISOString().split("T")[0];
+
+const CollectionSheet = () => {
+  const queryClient = useQueryClient();
+  const [businessDate, setBusinessDate] = useState(getTodayDate());
+  const [search, setSearch] = useState("");
+  const [inputs, setInputs] = useState<Record<number, RowInput>>({});
+  const [report, setReport] = useState<ReportRow[]>([]);
+
+  // Every open loan; the due filter is applied once the details are loaded
+  const { data: loansData, isLoading: isLoadingLoans } = useQuery<OpenLoan[]>({
+    queryKey: ["loans", "open", "collection-sheet"],
+    queryFn: () => fetchAllOpenLoans<OpenLoan>(),
+  });
+
+  const openLoans = useMemo(() => loansData ?? [], [loansData]);
+
+  const openLoanIds = useMemo(() => openLoans.map((loan) => loan.id), [openLoans]);
+
+  // One bulk lookup instead of a details request per open loan
+  const { data: detailsByLoan, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ["entries", "loan-details", openLoanIds],
+    queryFn: () => fetchLoanDetails(openLoanIds),
+    enabled: !!loansData,
+    staleTime: 1000 * 60,
+  });
+
+  const dueRows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return openLoans
+      .map((loan) => ({ loan, details: detailsByLoan?.get(loan.id) }))
+      .filter(({ loan, details }) => {
+        if (!details || details.isClosed || !details.nextEntryDate) return false;
+        if (details.nextEntryDate.split("T")[0] > businessDate) return false;
+        if (!term) return true;
+        return (
+          loan.party?.partyName?.toLowerCase().includes(term) ||
+          loan.party?.accountNumber?.toLowerCase().includes(term) ||
+          String(loan.id) === term
+        );
+      });
+  }, [openLoans, detailsByLoan, businessDate, search]);
+
+  const rowState = (loanId: number, details: LoanEntryDetails) => {
+    const input = inputs[loanId] ?? EMPTY_ROW_INPUT;
+    const pendingInterest = getPendingInterest(details);
+    const adjusted = applyInterestCap({
+      receivedInterest: parseFloat(input.receivedInterest || "0"),
+      receivedAmount: parseFloat(input.receivedAmount || "0"),
+      totalPendingInterest: pendingInterest,
+      balanceAmount: details.balanceAmount,
+    });
+    const isFilled = adjusted.receivedInterest > 0 || adjusted.receivedAmount > 0;
+    // Non-cash rows need their reference so the day close can split cash from non-cash
+    const paymentError = isFilled ? validatePaymentDetails(input.payment) : null;
+    return { input, pendingInterest, adjusted, isFilled, paymentError };
+  };
+
+  const filledRows = dueRows.filter(({ loan, details }) => details && rowState(loan.id, details).isFilled);
+  const invalidRows = filledRows.filter(({ loan, details }) => {
+    if (!details) return false;
+    const { adjusted, paymentError } = rowState(loan.id, details);
+    return adjusted.error || paymentError;
+  });
+  const batchTotals = filledRows.reduce(
+    (totals, { loan, details }) => {
+      const { adjusted } = rowState(loan.id, details!);
+      return {
+        interest: totals.interest + adjusted.receivedInterest,
+        amount: totals.amount + adjusted.receivedAmount,
+      };
+    },
+    { interest: 0, amount: 0 }
+  );
+
+  const handleInputChange = (loanId: number, field: AmountField, value: string) => {
+    setInputs((prev) => ({
+      ...prev,
+      [loanId]: { ...(prev[loanId] ?? EMPTY_ROW_INPUT), [field]: value },
+    }));
+  };
+
+  const handlePaymentChange = (loanId: number, changes: Partial<PaymentDetails>) => {
+    setInputs((prev) => {
+      const current = prev[loanId] ?? EMPTY_ROW_INPUT;
+      return { ...prev, [loanId]: { ...current, payment: { ...current.payment, ...changes } } };
+    });
+  };
+
+  // Enter moves down the column like a spreadsheet
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, field: AmountField) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    const next = document.querySelector<HTMLInputElement>(
+      `input[data-sheet-field="${field}"][data-sheet-row="${rowIndex + 1}"]`
+    );
+    next?.focus();
+    next?.select();
+  };
+
+  const batchMutation = useMutation({
+    mutationFn: (entries: Record<string, unknown>[]) => post("/entries/batch", { entries }),
+    onSuccess: (data: { results: BatchResult[] }) => {
+      const results = data.results ?? [];
+      const succeeded = results.filter((result) => result.success);
+      const failed = results.filter((result) => !result.success);
+
+      setReport(
+        results.map((result) => {
+          const row = filledRows.find(({ loan }) => loan.id === result.loanId);
+          const adjusted = row?.details ? rowState(row.loan.id, row.details).adjusted : undefined;
+          return {
+            ...result,
+            partyName: row?.loan.party?.partyName ?? `Loan #${result.loanId}`,
+            receivedInterest: adjusted?.receivedInterest ?? 0,
+            receivedAmount: adjusted?.receivedAmount ?? 0,
+          };
+        })
+      );
+
+      // Keep the failed rows keyed in so they can be corrected and resubmitted
+      setInputs((prev) => {
+        const next = { ...prev };
+        succeeded.forEach((result) => delete next[result.loanId]);
+        return next;
+      });
+
+      if (failed.length === 0) {
+        toast.success(`${succeeded.length} entries posted successfully`);
+      } else {
+        toast.warning(`${succeeded.length} entries posted, ${failed.length} failed`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["entries"] });
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to post collection sheet");
+    },
+  });
+
+  const handleSubmit = () => {
+    if (invalidRows.length > 0) {
+      toast.error("Please fix the highlighted rows before submitting");
+      return;
+    }
+    const entries = filledRows.map(({ loan, details }) => {
+      const { input, adjusted } = rowState(loan.id, details!);
+      return {
+        loanId: loan.id,
+        entryDate: details!.nextEntryDate!.split("T")[0],
+        receivedDate: businessDate,
+        receivedInterest: adjusted.receivedInterest,
+        receivedAmount: adjusted.receivedAmount,
+        ...toPaymentPayload(input.payment),
+      };
+    });
+    batchMutation.mutate(entries);
+  };
+
+  const isLoading = isLoadingLoans || isLoadingDetails;
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              Collection Sheet
+              <CardDescription>
+                Key in the day's collections for every loan due on or before the business date
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="businessDate" className="text-xs font-medium">Business Date</Label>
+                <Input
+                  id="businessDate"
+                  type="date"
+                  value={businessDate}
+                  onChange={(e) => setBusinessDate(e.target.value)}
+                  className="w-44"
+                />
+              </div>
+              <div className="relative w-64">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search party or account..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead className="text-center">Account Number</TableHead>
+                  <TableHead>Party</TableHead>
+                  <TableHead className="text-center">Due Date</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">Pending Interest</TableHead>
+                  <TableHead className="w-40">Received Interest</TableHead>
+                  <TableHead className="w-40">Received Amount</TableHead>
+                  <TableHead className="w-52">Payment</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center">
+                      <LoaderCircle className="h-8 w-8 animate-spin inline-block" />
+                    </TableCell>
+                  </TableRow>
+                ) : dueRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-6">
+                      No loans are due on {format(parseISO(businessDate), "dd/MM/yyyy")}.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  dueRows.map(({ loan, details }, rowIndex) => {
+                    const { input, pendingInterest, adjusted, paymentError } = rowState(loan.id, details!);
+                    const rowError = adjusted.error || paymentError;
+                    return (
+                      <TableRow key={loan.id} className={rowError ? "bg-red-50 dark:bg-red-900/30" : undefined}>
+                        <TableCell className="text-center">{loan.party?.accountNumber}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="font-medium">{loan.party?.partyName}</span>
+                            <span className="text-sm text-muted-foreground">{loan.party?.mobile1}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {format(parseISO(details!.nextEntryDate!), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(details!.balanceAmount)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(pendingInterest)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="0.00"
+                            value={input.receivedInterest}
+                            data-sheet-row={rowIndex}
+                            data-sheet-field="receivedInterest"
+                            onChange={(e) => handleInputChange(loan.id, "receivedInterest", e.target.value)}
+                            onKeyDown={(e) => handleKeyDown(e, rowIndex, "receivedInterest")}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="0.00"
+                            value={input.receivedAmount}
+                            data-sheet-row={rowIndex}
+                            data-sheet-field="receivedAmount"
+                            onChange={(e) => handleInputChange(loan.id, "receivedAmount", e.target.value)}
+                            onKeyDown={(e) => handleKeyDown(e, rowIndex, "receivedAmount")}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col gap-1">
+                            <Select
+                              value={input.payment.paymentMode}
+                              onValueChange={(paymentMode) =>
+                                handlePaymentChange(loan.id, { paymentMode: paymentMode as PaymentMode })
+                              }
+                            >
+                              <SelectTrigger className="w-full" aria-label="Payment mode">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.values(PAYMENT_MODES).map((mode) => (
+                                  <SelectItem key={mode} value={mode}>
+                                    {PAYMENT_MODE_LABELS[mode]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {input.payment.paymentMode === PAYMENT_MODES.UPI && (
+                              <Input
+                                placeholder="UPI transaction ID"
+                                value={input.payment.upiTransactionId}
+                                onChange={(e) => handlePaymentChange(loan.id, { upiTransactionId: e.target.value })}
+                              />
+                            )}
+                            {input.payment.paymentMode === PAYMENT_MODES.CHEQUE && (
+                              <>
+                                <Input
+                                  placeholder="Cheque number"
+                                  value={input.payment.chequeNumber}
+                                  onChange={(e) => handlePaymentChange(loan.id, { chequeNumber: e.target.value })}
+                                />
+                                <Input
+                                  placeholder="Bank"
+                                  value={input.payment.chequeBank}
+                                  onChange={(e) => handlePaymentChange(loan.id, { chequeBank: e.target.value })}
+                                />
+                              </>
+                            )}
+                            {input.payment.paymentMode === PAYMENT_MODES.BANK_TRANSFER && (
+                              <Input
+                                placeholder="Bank UTR"
+                                value={input.payment.bankUtr}
+                                onChange={(e) => handlePaymentChange(loan.id, { bankUtr: e.target.value })}
+                              />
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs max-w-64 whitespace-normal">
+                          {rowError ? (
+                            <span className="text-red-500">⚠ {rowError}</span>
+                          ) : adjusted.notice ? (
+                            <span className="text-orange-600">ℹ {adjusted.notice}</span>
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Batch summary */}
+          <div className="flex flex-col gap-3 mt-4 md:flex-row md:items-center md:justify-between">
+            <div className="text-sm text-muted-foreground">
+              {filledRows.length} of {dueRows.length} rows keyed in · Interest{" "}
+              <span className="font-semibold text-foreground">{formatCurrency(batchTotals.interest)}</span> · Principal{" "}
+              <span className="font-semibold text-foreground">{formatCurrency(batchTotals.amount)}</span>
+            </div>
+            <Button
+              onClick={handleSubmit}
+              disabled={batchMutation.isPending || filledRows.length === 0 || invalidRows.length > 0}
+            >
+              {batchMutation.isPending ? (
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Post {filledRows.length} Entries
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Per-row result of the last batch */}
+      {report.length > 0 && (
+        <Card className="border border-border">
+          <CardHeader className="text-lg font-semibold">
+            Batch Report
+            <CardDescription>
+              {report.filter((row) => row.success).length} posted, {report.filter((row) => !row.success).length} failed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead>Loan</TableHead>
+                    <TableHead>Party</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map((row) => (
+                    <TableRow key={row.loanId}>
+                      <TableCell>#{row.loanId}</TableCell>
+                      <TableCell>{row.partyName}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(row.receivedInterest)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(row.receivedAmount)}</TableCell>
+                      <TableCell>
+                        {row.success ? (
+                          <Badge variant="outline" className="gap-1 text-green-700 border-green-300">
+                            <CheckCircle className="h-3 w-3" />
+                            Posted{row.entryId ? ` (Entry #${row.entryId})` : ""}
+                          </Badge>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-red-600">
+                            <XCircle className="h-4 w-4" />
+                            {row.message || "Failed"}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CollectionSheet;
@@ -0,0 +1,272 @@
+import { useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfWeek, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { IndianRupee, LoaderCircle, Printer } from "lucide-react";
+import { formatCurrency } from "@/lib/formatter";
+import { printElement } from "@/lib/export";
+import EntryDialog from "@/modules/Loans/EntryDialog";
+import { fetchAllOpenLoans } from "./openLoans";
+import { fetchLoanDetails, getPendingInterest } from "./loanDetails";
+
+interface OpenLoan {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  interest: number;
+  party?: {
+    partyName: string;
+    accountNumber: string;
+    mobile1: string;
+    address: string;
+  };
+}
+
+type DueStatus = "overdue" | "today" | "week";
+type DueWindow = "all" | DueStatus;
+
+const DUE_STATUS_LABELS: Record<DueStatus, string> = {
+  overdue: "Overdue",
+  today: "Due Today",
+  week: "This Week",
+};
+
+const getDueStatus = (nextEntryDate: string, today: string, weekEnd: string): DueStatus | null => {
+  if (nextEntryDate < today) return "overdue";
+  if (nextEntryDate === today) return "today";
+  if (nextEntryDate <= weekEnd) return "week";
+  return null;
+};
+
+const CollectionsDue = () => {
+  const [dueWindow, setDueWindow] = useState<DueWindow>("all");
+  const [selectedLoanId, setSelectedLoanId] = useState<number | null>(null);
+  const [isEntryDialogOpen, setIsEntryDialogOpen] = useState(false);
+  const routeSheetRef = useRef<HTMLDivElement>(null);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const weekEnd = format(endOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd");
+
+  const { data: loansData, isLoading: isLoadingLoans } = useQuery<OpenLoan[]>({
+    queryKey: ["loans", "open", "collections-due"],
+    queryFn: () => fetchAllOpenLoans<OpenLoan>(),
+  });
+
+  const openLoans = useMemo(() => loansData ?? [], [loansData]);
+
+  const openLoanIds = useMemo(() => openLoans.map((loan) => loan.id), [openLoans]);
+
+  const { data: detailsByLoan, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ["entries", "loan-details", openLoanIds],
+    queryFn: () => fetchLoanDetails(openLoanIds),
+    enabled: !!loansData,
+    staleTime: 1000 * 60,
+  });
+
+  const isLoading = isLoadingLoans || isLoadingDetails;
+
+  const dueRows = useMemo(
+    () =>
+      openLoans
+        .map((loan) => {
+          const details = detailsByLoan?.get(loan.id);
+          const nextEntryDate = details?.nextEntryDate?.split("T")[0];
+          const status = details && !details.isClosed && nextEntryDate
+            ? getDueStatus(nextEntryDate, today, weekEnd)
+            : null;
+          const expectedInterest = details ? getPendingInterest(details) : 0;
+          return { loan, details, nextEntryDate, status, expectedInterest };
+        })
+        .filter((row) => row.status && (dueWindow === "all" || row.status === dueWindow))
+        .sort((a, b) => (a.nextEntryDate ?? "").localeCompare(b.nextEntryDate ?? "")),
+    [openLoans, detailsByLoan, today, weekEnd, dueWindow]
+  );
+
+  const totalExpectedInterest = dueRows.reduce((sum, row) => sum + row.expectedInterest, 0);
+
+  const handleRecordPayment = (loanId: number) => {
+    setSelectedLoanId(loanId);
+    setIsEntryDialogOpen(true);
+  };
+
+  const handlePrint = () => {
+    if (routeSheetRef.current && !printElement(routeSheetRef.current, `Route Sheet ${format(new Date(), "dd/MM/yyyy")}`)) {
+      toast.error("Please allow popups to print the route sheet");
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              Collections Due
+              <CardDescription>Open loans whose next entry is overdue, due today or due this week</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={dueWindow} onValueChange={(value) => setDueWindow(value as DueWindow)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Due</SelectItem>
+                  <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="today">Due Today</SelectItem>
+                  <SelectItem value="week">This Week</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handlePrint} disabled={isLoading || dueRows.length === 0}>
+                <Printer className="mr-2 h-4 w-4" />
+                Route Sheet
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead className="text-center">Account Number</TableHead>
+                  <TableHead>Party</TableHead>
+                  <TableHead>Mobile</TableHead>
+                  <TableHead className="text-center">Next Entry</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                  <TableHead className="text-right">Expected Interest</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center">
+                      <LoaderCircle className="h-8 w-8 animate-spin inline-block" />
+                    </TableCell>
+                  </TableRow>
+                ) : dueRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6">
+                      No collections due.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  dueRows.map(({ loan, details, nextEntryDate, status, expectedInterest }) => (
+                    <TableRow key={loan.id}>
+                      <TableCell className="text-center">{loan.party?.accountNumber}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{loan.party?.partyName}</div>
+                        <div className="text-sm text-muted-foreground">{loan.party?.address}</div>
+                      </TableCell>
+                      <TableCell>
+                        {loan.party?.mobile1 && (
+                          <a href={`tel:${loan.party.mobile1}`} className="hover:underline">
+                            {loan.party.mobile1}
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {nextEntryDate && format(parseISO(nextEntryDate), "dd/MM/yyyy")}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {status && (
+                          <Badge variant={status === "overdue" ? "destructive" : status === "today" ? "default" : "outline"}>
+                            {DUE_STATUS_LABELS[status]}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatCurrency(expectedInterest)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(details?.balanceAmount ?? 0)}</TableCell>
+                      <TableCell className="text-center">
+                        <Button size="sm" variant="outline" onClick={() => handleRecordPayment(loan.id)}>
+                          <IndianRupee className="mr-1 h-4 w-4" />
+                          Record payment
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          {dueRows.length > 0 && (
+            <div className="mt-4 text-sm text-muted-foreground text-right">
+              {dueRows.length} loans · Expected interest{" "}
+              <span className="font-semibold text-foreground">{formatCurrency(totalExpectedInterest)}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Printable route sheet for field staff; only visible in the print window */}
+      <div ref={routeSheetRef} className="hidden print:block">
+        <h2 className="text-lg font-bold mb-1">Route Sheet · {format(new Date(), "dd MMM yyyy")}</h2>
+        <p className="text-sm mb-4">
+          {dueRows.length} loans · Expected interest {formatCurrency(totalExpectedInterest)}
+        </p>
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="border p-1 text-left">#</th>
+              <th className="border p-1 text-left">Party</th>
+              <th className="border p-1 text-left">Mobile</th>
+              <th className="border p-1 text-left">Due</th>
+              <th className="border p-1 text-right">Expected Interest</th>
+              <th className="border p-1 text-right">Collected</th>
+              <th className="border p-1 text-left">Signature</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dueRows.map(({ loan, nextEntryDate, expectedInterest }, index) => (
+              <tr key={loan.id}>
+                <td className="border p-1">{index + 1}</td>
+                <td className="border p-1">
+                  <div className="font-medium">
+                    {loan.party?.partyName} ({loan.party?.accountNumber})
+                  </div>
+                  <div className="text-xs">{loan.party?.address}</div>
+                </td>
+                <td className="border p-1">{loan.party?.mobile1}</td>
+                <td className="border p-1">{nextEntryDate && format(parseISO(nextEntryDate), "dd/MM/yyyy")}</td>
+                <td className="border p-1 text-right">{formatCurrency(expectedInterest)}</td>
+                <td className="border p-1 w-28"></td>
+                <td className="border p-1 w-32"></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <EntryDialog
+        selectedLoanId={selectedLoanId}
+        isEntryDialogOpen={isEntryDialogOpen}
+        setIsEntryDialogOpen={setIsEntryDialogOpen}
+        setSelectedLoanId={setSelectedLoanId}
+      />
+    </div>
+  );
+};
+
+export default CollectionsDue;
@@ -0,0 +1,36 @@
+import { post } from "@/services/apiService";
+import { InterestModel } from "@/config/interestModels";
+import { calculateFormInterest } from "@/modules/Loans/interestCalculation";
+
+/** The same fields /entries/loan/:id/details returns, tagged with the loan they belong to */
+export interface LoanEntryDetails {
+  loanId: number;
+  loanAmount?: number | null;
+  balanceAmount: number;
+  balanceInterest: number;
+  interest: number;
+  interestModel?: InterestModel | null;
+  tenureMonths?: number | null;
+  calculatedInterestAmount: number;
+  totalPendingInterest: number;
+  nextEntryDate?: string | null;
+  isClosed?: boolean;
+}
+
+/** Entry details for many loans in one request, keyed by loan id */
+export const fetchLoanDetails = async (loanIds: number[]): Promise<Map<number, LoanEntryDetails>> => {
+  if (loanIds.length === 0) return new Map();
+  const data: { details?: LoanEntryDetails[] } = await post("/entries/loan-details", { loanIds });
+  return new Map((data.details ?? []).map((details) => [details.loanId, details]));
+};
+
+/** Interest due under the loan's own model, the same figure EntryDialog shows and caps receipts against */
+export const getPendingInterest = (details: LoanEntryDetails) =>
+  calculateFormInterest({
+    interestModel: details.interestModel ?? "",
+    loanAmount: String(details.loanAmount ?? details.balanceAmount),
+    balanceAmount: String(details.balanceAmount),
+    balanceInterest: String(details.balanceInterest),
+    interestPercentage: String(details.interest),
+    tenureMonths: details.tenureMonths ? String(details.tenureMonths) : "",
+  }).totalPendingInterest;
@@ -0,0 +1,17 @@
+import { get } from "@/services/apiService";
+
+const PAGE_SIZE = 500;
+
+/** Every loan matching the /loans filters, fetched page by page so none are cut off */
+export const fetchAllLoans = async <T>(params: Record<string, unknown>): Promise<T[]> => {
+  const loans: T[] = [];
+  for (let page = 1; ; page += 1) {
+    const data: { loans?: T[]; totalPages?: number } = await get("/loans", { ...params, page, limit: PAGE_SIZE });
+    loans.push(...(data.loans ?? []));
+    if (!data.loans?.length || page >= (data.totalPages ?? 1)) return loans;
+  }
+};
+
+/** Every open loan, oldest first */
+export const fetchAllOpenLoans = <T>(): Promise<T[]> =>
+  fetchAllLoans<T>({ isClosed: false, sortBy: "loanDate", sortOrder: "asc" });
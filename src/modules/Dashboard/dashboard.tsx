@@ -25,6 +25,8 @@ import {
 import CustomPagination from "@/components/common/custom-pagination";
 import { get } from "@/services/apiService";
 import { formatCurrency } from "@/lib/formatter";
+import { PAYMENT_MODES, PAYMENT_MODE_LABELS } from "@/config/paymentModes";
+import { EntryPaymentInfo, getPaymentModeLabel, getPaymentReference } from "@/modules/Loans/paymentDetails";
 
 // Interfaces
 interface Party {
@@ -34,7 +36,7 @@ interface Party {
   reference: string;
 }
 
-interface Entry {
+interface Entry extends EntryPaymentInfo {
   id: number;
   loanId: number;
   entryDate: string;
@@ -63,6 +65,7 @@ interface DashboardData {
 const Dashboard = () => {
   const [selectedPartyId, setSelectedPartyId] = useState<string>("");
   const [page, setPage] = useState(1);
+  const [paymentModeFilter, setPaymentModeFilter] = useState("all");
   const limit = 5; // Fixed pagination limit as requested
 
   // Fetch parties for dropdown
@@ -81,7 +84,7 @@ const Dashboard = () => {
     isError,
     error,
   } = useQuery<DashboardData>({
-    queryKey: ["dashboard-entries", selectedPartyId, page, limit],
+    queryKey: ["dashboard-entries", selectedPartyId, page, limit, paymentModeFilter],
     queryFn: async () => {
       const params: Record<string, any> = {
         page,
@@ -89,6 +92,7 @@ const Dashboard = () => {
         sortBy: "entryDate",
         sortOrder: "desc",
       };
+      if (paymentModeFilter !== "all") params.paymentMode = paymentModeFilter;
       
       if (selectedPartyId) {
         // First get loans for the selected party
@@ -180,7 +184,26 @@ const Dashboard = () => {
             )}
             </CardTitle>
           
-            <div className="flex flex-col gap-2">
+            <div className="flex flex-col sm:flex-row gap-2">
+               <Select
+                 value={paymentModeFilter}
+                 onValueChange={(value) => {
+                   setPaymentModeFilter(value);
+                   setPage(1);
+                 }}
+               >
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue placeholder="Payment mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Modes</SelectItem>
+                  {Object.values(PAYMENT_MODES).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {PAYMENT_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
                <Select value={selectedPartyId} onValueChange={handlePartyChange}>
                 <SelectTrigger className="w-full sm:w-80">
                   <SelectValue placeholder="Choose a party to view entries" />
@@ -230,12 +253,13 @@ const Dashboard = () => {
                       <TableHead>Received Date</TableHead>
                       <TableHead>Received Amount</TableHead>
                       <TableHead>Received Interest</TableHead>
+                      <TableHead>Mode</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {entriesData?.entries?.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={7} className="h-24 text-center">
+                        <TableCell colSpan={8} className="h-24 text-center">
                           No entries found for this party.
                         </TableCell>
                       </TableRow>
@@ -266,6 +290,16 @@ const Dashboard = () => {
                               : "-"
                             }
                           </TableCell>
+                          <TableCell>
+                            {entry.receivedDate ? (
+                              <div className="flex flex-col">
+                                <span>{getPaymentModeLabel(entry.paymentMode)}</span>
+                                <span className="text-xs text-muted-foreground">{getPaymentReference(entry)}</span>
+                              </div>
+                            ) : (
+                              "-"
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))
                     )}
@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarCheck, History, LoaderCircle } from "lucide-react";
+import { get, post, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { useBranch } from "@/hooks/useBranch";
+import { DayCloseSummary, getExpectedCash } from "./dayCloseTypes";
+import DayCloseReport from "./DayCloseReport";
+
+interface DayCloseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DayCloseDialog: React.FC<DayCloseDialogProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [countedCash, setCountedCash] = useState("");
+  const [remarks, setRemarks] = useState("");
+  // Each branch closes its own day, so the consolidated view cannot be closed
+  const { isAllBranches, selectedBranch } = useBranch();
+
+  // Totals for the business day that is about to be closed
+  const { data: summary, isLoading, isError, error, refetch, isFetching } = useQuery<DayCloseSummary>({
+    queryKey: ["dayCloseSummary"],
+    queryFn: () => get("/api/day-closes/summary"),
+    enabled: isOpen && !isAllBranches,
+  });
+
+  const expectedCash = summary ? getExpectedCash(summary) : 0;
+  const cashDifference = countedCash === "" ? null : parseFloat(countedCash) - expectedCash;
+
+  const dayCloseMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) => post("/api/day-closes", payload),
+    onSuccess: (data: { nextDay?: string }) => {
+      const nextDayFormatted = data.nextDay ? format(new Date(data.nextDay), "dd MMM yyyy") : "";
+      toast.success(`Day closed. Next day: ${nextDayFormatted}`);
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+      queryClient.invalidateQueries({ queryKey: ["lastDayClose"] });
+      queryClient.invalidateQueries({ queryKey: ["dayCloseSummary"] });
+      queryClient.invalidateQueries({ queryKey: ["dayCloses"] });
+      handleClose();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to perform day close");
+    },
+  });
+
+  const handleClose = () => {
+    setCountedCash("");
+    setRemarks("");
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (countedCash === "" || parseFloat(countedCash) < 0) {
+      toast.error("Please enter the counted cash");
+      return;
+    }
+    if (cashDifference !== null && Math.abs(cashDifference) > 0.005 && !remarks.trim()) {
+      toast.error("Please explain the cash difference in the remarks");
+      return;
+    }
+    dayCloseMutation.mutate({
+      countedCash: parseFloat(countedCash),
+      expectedCash,
+      cashDifference,
+      remarks: remarks.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Day Close
+            {selectedBranch && <span className="font-normal">· {selectedBranch.name}</span>}
+            {summary?.businessDate && (
+              <span className="text-muted-foreground font-normal">
+                · {format(new Date(summary.businessDate), "dd MMM yyyy")}
+              </span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isAllBranches ? (
+          <div className="space-y-4 py-4 text-center">
+            <p className="text-muted-foreground">Select a branch to close its day.</p>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Close
+            </Button>
+          </div>
+        ) : isError ? (
+          <div className="space-y-4 py-4 text-center">
+            <p className="text-destructive">{(error as ApiError)?.message || "Failed to load the day close summary"}</p>
+            <div className="flex justify-center gap-2">
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Close
+              </Button>
+              <Button type="button" onClick={() => refetch()} disabled={isFetching}>
+                {isFetching && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                Retry
+              </Button>
+            </div>
+          </div>
+        ) : isLoading || !summary ? (
+          <div className="flex items-center justify-center py-8">
+            <LoaderCircle className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <DayCloseReport report={summary} />
+
+            {/* Cash reconciliation */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="countedCash">
+                  Counted Cash <span className="text-red-500">*</span>
+                </Label>
+                <div className="relative">
+                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500 font-medium">₹</span>
+                  <Input
+                    id="countedCash"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={countedCash}
+                    onChange={(e) => setCountedCash(e.target.value)}
+                    className="pl-7"
+                    placeholder="0.00"
+                    autoFocus
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Difference</Label>
+                <div
+                  className={`h-9 flex items-center font-semibold tabular-nums ${
+                    cashDifference === null || Math.abs(cashDifference) < 0.005
+                      ? ""
+                      : cashDifference > 0
+                      ? "text-green-600"
+                      : "text-red-600"
+                  }`}
+                >
+                  {cashDifference === null ? "-" : formatCurrency(cashDifference)}
+                  {cashDifference !== null && Math.abs(cashDifference) >= 0.005 && (
+                    <span className="ml-2 text-xs font-normal">
+                      ({cashDifference > 0 ? "excess" : "short"})
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dayCloseRemarks">Remarks</Label>
+              <Textarea
+                id="dayCloseRemarks"
+                value={remarks}
+                onChange={(e) => setRemarks(e.target.value)}
+                placeholder="Required when the counted cash does not match"
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Once closed, entries can no longer be posted for this day. Only an admin can reopen it.
+            </p>
+
+            <div className="flex justify-between gap-3 pt-2">
+              <Button type="button" variant="ghost" onClick={() => navigate("/day-closes")}>
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Button>
+              <div className="flex gap-3">
+                <Button type="button" variant="outline" onClick={handleClose} disabled={dayCloseMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={dayCloseMutation.isPending || countedCash === ""}>
+                  {dayCloseMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                  Close Day
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DayCloseDialog;
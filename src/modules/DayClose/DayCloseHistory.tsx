@@ -0,0 +1,328 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Eye, LoaderCircle, RotateCcw } from "lucide-react";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get, post, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
+import { DayCloseRecord } from "./dayCloseTypes";
+import DayCloseReport from "./DayCloseReport";
+
+interface DayClosesResponse {
+  dayCloses: DayCloseRecord[];
+  totalPages: number;
+  totalDayCloses: number;
+}
+
+const formatDateTime = (value: string) => format(new Date(value), "dd MMM yyyy, hh:mm a");
+
+const DayCloseHistory = () => {
+  const queryClient = useQueryClient();
+  const { can } = useRoleAccess();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [recordsPerPage, setRecordsPerPage] = useState(10);
+  const [reportToView, setReportToView] = useState<DayCloseRecord | null>(null);
+  const [dayToReopen, setDayToReopen] = useState<DayCloseRecord | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
+
+  const { data, isLoading, isError, error } = useQuery<DayClosesResponse>({
+    queryKey: ["dayCloses", currentPage, recordsPerPage],
+    queryFn: () => get("/api/day-closes", { page: currentPage, limit: recordsPerPage }),
+  });
+
+  // Reopening keeps the original close and records who reopened it and why
+  const reopenMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: number; reason: string }) =>
+      post(`/api/day-closes/${id}/reopen`, { reason }),
+    onSuccess: () => {
+      toast.success("Day reopened successfully");
+      queryClient.invalidateQueries({ queryKey: ["dayCloses"] });
+      queryClient.invalidateQueries({ queryKey: ["lastDayClose"] });
+      queryClient.invalidateQueries({ queryKey: ["dayCloseSummary"] });
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+      handleReopenClose();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to reopen day");
+    },
+  });
+
+  const handleReopenClose = () => {
+    setDayToReopen(null);
+    setReopenReason("");
+  };
+
+  const handleReopenSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dayToReopen) return;
+    if (!reopenReason.trim()) {
+      toast.error("Please enter a reason for reopening the day");
+      return;
+    }
+    reopenMutation.mutate({ id: dayToReopen.id, reason: reopenReason.trim() });
+  };
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage > 0 && (!data || newPage <= data.totalPages)) {
+      setCurrentPage(newPage);
+    }
+  };
+
+  const handleRecordsPerPageChange = (newLimit: number) => {
+    setRecordsPerPage(newLimit);
+    setCurrentPage(1);
+  };
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Day Closes</h2>
+        <p>{(error as ApiError)?.message || "Failed to load day closes"}</p>
+        <Button className="mt-4" onClick={() => queryClient.invalidateQueries({ queryKey: ["dayCloses"] })}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Day Close History
+          <CardDescription>Reports and cash reconciliation for every closed day</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead>Business Date</TableHead>
+                  <TableHead>Closed At</TableHead>
+                  <TableHead className="text-center">Entries</TableHead>
+                  <TableHead className="text-right">Principal</TableHead>
+                  <TableHead className="text-right">Interest</TableHead>
+                  <TableHead className="text-right">Cash / Non-cash</TableHead>
+                  <TableHead className="text-right">Disbursed</TableHead>
+                  <TableHead className="text-right">Counted Cash</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={11} className="text-center">
+                      <LoaderCircle className="h-8 w-8 animate-spin inline-block" />
+                    </TableCell>
+                  </TableRow>
+                ) : !data?.dayCloses.length ? (
+                  <TableRow>
+                    <TableCell colSpan={11} className="text-center py-6">
+                      No day closes found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data.dayCloses.map((dayClose) => (
+                    <TableRow key={dayClose.id}>
+                      <TableCell className="font-medium">
+                        {format(new Date(dayClose.businessDate), "dd MMM yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <div>{formatDateTime(dayClose.closedAt)}</div>
+                        {dayClose.closedBy?.name && (
+                          <div className="text-xs text-muted-foreground">by {dayClose.closedBy.name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">{dayClose.entriesCount}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(dayClose.principalCollected)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(dayClose.interestCollected)}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {dayClose.cashCollected !== undefined ? (
+                          <>
+                            <div>{formatCurrency(dayClose.cashCollected)}</div>
+                            <div className="text-xs text-muted-foreground">{formatCurrency(dayClose.nonCashCollected ?? 0)}</div>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(dayClose.loansDisbursedAmount)}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {dayClose.countedCash !== null ? formatCurrency(dayClose.countedCash) : "-"}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right tabular-nums ${
+                          dayClose.cashDifference && dayClose.cashDifference < 0
+                            ? "text-red-600"
+                            : dayClose.cashDifference
+                            ? "text-green-600"
+                            : ""
+                        }`}
+                      >
+                        {dayClose.cashDifference !== null ? formatCurrency(dayClose.cashDifference) : "-"}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {dayClose.isReopened ? (
+                          <Badge variant="outline" className="text-orange-600 border-orange-300">Reopened</Badge>
+                        ) : (
+                          <Badge variant="secondary">Closed</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <div className="flex justify-center gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => setReportToView(dayClose)} title="View Report">
+                            <Eye className="h-4 w-4" />
+                            <span className="sr-only">View Report</span>
+                          </Button>
+                          {can(MODULES.DAY_CLOSE, PERMISSIONS.EDIT) && !dayClose.isReopened && (
+                            <Button variant="ghost" size="icon" onClick={() => setDayToReopen(dayClose)} title="Reopen Day">
+                              <RotateCcw className="h-4 w-4" />
+                              <span className="sr-only">Reopen Day</span>
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-center mt-4">
+            <CustomPagination
+              currentPage={currentPage}
+              totalPages={data?.totalPages || 1}
+              totalRecords={data?.totalDayCloses || 0}
+              recordsPerPage={recordsPerPage}
+              onPageChange={handlePageChange}
+              onRecordsPerPageChange={handleRecordsPerPageChange}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Day report */}
+      <Dialog open={!!reportToView} onOpenChange={(open) => !open && setReportToView(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Day Close Report
+              {reportToView && (
+                <span className="text-muted-foreground font-normal">
+                  {" "}· {format(new Date(reportToView.businessDate), "dd MMM yyyy")}
+                </span>
+              )}
+            </DialogTitle>
+          </DialogHeader>
+          {reportToView && (
+            <div className="space-y-4 text-sm">
+              <DayCloseReport report={reportToView} />
+              <div className="grid grid-cols-2 gap-4 px-1">
+                <div>
+                  <div className="text-muted-foreground">Counted Cash</div>
+                  <div className="font-semibold tabular-nums">
+                    {reportToView.countedCash !== null ? formatCurrency(reportToView.countedCash) : "-"}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Difference</div>
+                  <div className="font-semibold tabular-nums">
+                    {reportToView.cashDifference !== null ? formatCurrency(reportToView.cashDifference) : "-"}
+                  </div>
+                </div>
+                {reportToView.remarks && (
+                  <div className="col-span-2">
+                    <div className="text-muted-foreground">Remarks</div>
+                    <div>{reportToView.remarks}</div>
+                  </div>
+                )}
+              </div>
+
+              {/* Audit trail of reopenings */}
+              {!!reportToView.reopenings?.length && (
+                <div className="space-y-2">
+                  <div className="font-semibold">Reopen History</div>
+                  <ul className="space-y-2">
+                    {reportToView.reopenings.map((reopening) => (
+                      <li key={reopening.id} className="rounded-md border p-2">
+                        <div className="text-xs text-muted-foreground">
+                          {formatDateTime(reopening.reopenedAt)}
+                          {reopening.reopenedBy?.name && ` by ${reopening.reopenedBy.name}`}
+                        </div>
+                        <div>{reopening.reason}</div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Reopen day (admin only) */}
+      <Dialog open={!!dayToReopen} onOpenChange={(open) => !open && handleReopenClose()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-orange-600">
+              <RotateCcw className="h-5 w-5" />
+              Reopen Day
+            </DialogTitle>
+          </DialogHeader>
+          {dayToReopen && (
+            <form onSubmit={handleReopenSubmit} className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Reopening {format(new Date(dayToReopen.businessDate), "dd MMM yyyy")} allows entries to be posted
+                for it again. The day will have to be closed again afterwards.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="reopenReason">
+                  Reason <span className="text-red-500">*</span>
+                </Label>
+                <Textarea
+                  id="reopenReason"
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  placeholder="e.g. Collection entry missed before close"
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={handleReopenClose} disabled={reopenMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={reopenMutation.isPending || !reopenReason.trim()}>
+                  {reopenMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                  Reopen Day
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DayCloseHistory;
@@ -0,0 +1,52 @@
+import React from "react";
+import { formatCurrency } from "@/lib/formatter";
+import { DayCloseSummary, getExpectedCash } from "./dayCloseTypes";
+
+interface DayCloseReportProps {
+  report: DayCloseSummary;
+}
+
+const DayCloseReport: React.FC<DayCloseReportProps> = ({ report }) => {
+  const items = [
+    { label: "Entries Posted", value: report.entriesCount.toString() },
+    { label: "Principal Collected", value: formatCurrency(report.principalCollected) },
+    { label: "Interest Collected", value: formatCurrency(report.interestCollected) },
+    { label: "Total Collected", value: formatCurrency(report.principalCollected + report.interestCollected) },
+    ...(report.cashCollected !== undefined
+      ? [
+          { label: "Cash Collected", value: formatCurrency(report.cashCollected) },
+          { label: "Non-cash Collected", value: formatCurrency(report.nonCashCollected ?? 0) },
+        ]
+      : []),
+    {
+      label: "New Loans Disbursed",
+      value: `${formatCurrency(report.loansDisbursedAmount)} (${report.loansDisbursedCount})`,
+    },
+    {
+      label: "Accounts Closed",
+      value:
+        report.accountsClosedAmount !== undefined
+          ? `${report.accountsClosedCount} (${formatCurrency(report.accountsClosedAmount)})`
+          : report.accountsClosedCount.toString(),
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 bg-gray-50 dark:bg-muted/40 p-4 rounded-lg border text-sm">
+        {items.map((item) => (
+          <div key={item.label}>
+            <div className="text-muted-foreground">{item.label}</div>
+            <div className="font-semibold tabular-nums">{item.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between items-center px-4 py-2 rounded-lg border text-sm">
+        <span className="text-muted-foreground">Expected Cash (cash collections − disbursements)</span>
+        <span className="font-semibold tabular-nums">{formatCurrency(getExpectedCash(report))}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DayCloseReport;
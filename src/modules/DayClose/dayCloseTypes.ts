@@ -0,0 +1,41 @@
+export interface DayCloseSummary {
+  businessDate: string;
+  entriesCount: number;
+  principalCollected: number;
+  interestCollected: number;
+  loansDisbursedCount: number;
+  loansDisbursedAmount: number;
+  accountsClosedCount: number;
+  accountsClosedAmount?: number;
+  /** Principal and interest received in cash */
+  cashCollected?: number;
+  /** Principal and interest received by UPI, cheque or bank transfer */
+  nonCashCollected?: number;
+}
+
+export interface DayCloseReopening {
+  id: number;
+  reopenedAt: string;
+  reason: string;
+  reopenedBy?: {
+    name: string;
+  } | null;
+}
+
+export interface DayCloseRecord extends DayCloseSummary {
+  id: number;
+  closedAt: string;
+  expectedCash: number;
+  countedCash: number | null;
+  cashDifference: number | null;
+  remarks?: string | null;
+  isReopened?: boolean;
+  closedBy?: {
+    name: string;
+  } | null;
+  reopenings?: DayCloseReopening[];
+}
+
+// Cash in hand should equal cash collections minus the amount paid out as new loans
+export const getExpectedCash = (summary: DayCloseSummary): number =>
+  (summary.cashCollected ?? summary.principalCollected + summary.interestCollected) - summary.loansDisbursedAmount;
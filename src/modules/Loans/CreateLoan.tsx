@@ -2,14 +2,16 @@
 import LoanForm from "./LoanForm";
 
 interface CreateLoanProps {
+  partyIdPrefill?: number;
   onSuccess?: () => void;
   className?: string;
 }
 
-const CreateLoan = ({ onSuccess, className }: CreateLoanProps) => {
+const CreateLoan = ({ partyIdPrefill, onSuccess, className }: CreateLoanProps) => {
   return (
     <LoanForm 
       mode="create" 
+      partyIdPrefill={partyIdPrefill}
       onSuccess={onSuccess}
       className={className}
     />
@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LoaderCircle, PenSquare } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { get, put, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { toast } from "sonner";
+import { InterestModel } from "@/config/interestModels";
+import { applyInterestCap } from "./entryValidation";
+import { calculateFormInterest } from "./interestCalculation";
+import { fetchAllLoanEntries } from "./loanEntries";
+
+export interface EditableEntry {
+  id: number;
+  loanId: number;
+  entryDate: string;
+  balanceAmount: number;
+  interestAmount: number;
+  receivedDate?: string | null;
+  receivedAmount?: number | null;
+  receivedInterest?: number | null;
+}
+
+interface LoanTerms {
+  loanAmount: number;
+  interest: number;
+  interestModel?: InterestModel | null;
+  tenureMonths?: number | null;
+}
+
+interface EditEntryDialogProps {
+  entry: EditableEntry;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EditEntryDialog: React.FC<EditEntryDialogProps> = ({
+  entry,
+  isOpen,
+  onClose,
+}) => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    receivedDate: "",
+    receivedInterest: "",
+    receivedAmount: "",
+    reason: "",
+  });
+
+  useEffect(() => {
+    setForm({
+      receivedDate: entry.receivedDate ? entry.receivedDate.split("T")[0] : "",
+      receivedInterest: entry.receivedInterest?.toString() ?? "",
+      receivedAmount: entry.receivedAmount?.toString() ?? "",
+      reason: "",
+    });
+  }, [entry]);
+
+  const { data: loan, isLoading: isLoadingLoan } = useQuery<LoanTerms>({
+    queryKey: ["loan", String(entry.loanId)],
+    queryFn: () => get(`/loans/${entry.loanId}`),
+    enabled: isOpen,
+  });
+
+  const { data: loanEntries, isLoading: isLoadingEntries } = useQuery<EditableEntry[]>({
+    queryKey: ["entries", { loanIdParam: String(entry.loanId), all: true }],
+    queryFn: () => fetchAllLoanEntries<EditableEntry>(entry.loanId),
+    enabled: isOpen,
+  });
+
+  // Interest pending at this entry: the period's interest plus whatever the earlier entries left unpaid
+  const pendingInterest = useMemo(() => {
+    if (!loan || !loanEntries) return null;
+    const index = loanEntries.findIndex((item) => item.id === entry.id);
+    const carriedInterest = loanEntries
+      .slice(0, index === -1 ? loanEntries.length : index)
+      .reduce((sum, item) => sum + (item.interestAmount ?? 0) - (item.receivedInterest ?? 0), 0);
+    return calculateFormInterest({
+      interestModel: loan.interestModel ?? "",
+      loanAmount: String(loan.loanAmount),
+      balanceAmount: String(entry.balanceAmount),
+      balanceInterest: String(Math.max(carriedInterest, 0)),
+      interestPercentage: String(loan.interest),
+      tenureMonths: loan.tenureMonths ? String(loan.tenureMonths) : "",
+    }).totalPendingInterest;
+  }, [loan, loanEntries, entry]);
+
+  // Same rules as posting: excess interest moves to the principal, which may not exceed the balance
+  const adjusted = applyInterestCap({
+    receivedInterest: parseFloat(form.receivedInterest || "0"),
+    receivedAmount: parseFloat(form.receivedAmount || "0"),
+    totalPendingInterest: pendingInterest ?? 0,
+    balanceAmount: entry.balanceAmount,
+  });
+  const isLoadingTerms = isLoadingLoan || isLoadingEntries || pendingInterest === null;
+
+  const updateEntryMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) => put(`/entries/${entry.id}`, payload),
+    onSuccess: () => {
+      toast.success("Entry updated successfully");
+      // Balances, the monthly summary and the next entry date are recomputed on the server
+      queryClient.invalidateQueries({ queryKey: ["entries"] });
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+      queryClient.invalidateQueries({ queryKey: ["loan"] });
+      onClose();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to update entry");
+    },
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isLoadingTerms || adjusted.error) return;
+    if (!form.reason.trim()) {
+      toast.error("Please enter a reason for the correction");
+      return;
+    }
+    updateEntryMutation.mutate({
+      receivedDate: form.receivedDate || null,
+      receivedInterest: adjusted.receivedInterest,
+      receivedAmount: adjusted.receivedAmount,
+      reason: form.reason.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PenSquare className="h-5 w-5" />
+            Edit Entry #{entry.id}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-4 bg-gray-50 dark:bg-muted/40 p-3 rounded-lg border text-sm">
+            <div>
+              <div className="text-muted-foreground">Entry Date</div>
+              <div className="font-semibold">{new Date(entry.entryDate).toLocaleDateString("en-GB")}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Balance Amount</div>
+              <div className="font-semibold">{formatCurrency(entry.balanceAmount)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Pending Interest</div>
+              <div className="font-semibold">
+                {pendingInterest === null ? (
+                  <LoaderCircle className="h-4 w-4 animate-spin" />
+                ) : (
+                  formatCurrency(pendingInterest)
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="editReceivedDate">Received Date</Label>
+            <Input
+              id="editReceivedDate"
+              name="receivedDate"
+              type="date"
+              value={form.receivedDate}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="editReceivedInterest">Received Interest</Label>
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500 font-medium">₹</span>
+                <Input
+                  id="editReceivedInterest"
+                  name="receivedInterest"
+                  type="number"
+                  step="0.01"
+                  value={form.receivedInterest}
+                  onChange={handleChange}
+                  className="pl-7"
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editReceivedAmount">Received Amount</Label>
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500 font-medium">₹</span>
+                <Input
+                  id="editReceivedAmount"
+                  name="receivedAmount"
+                  type="number"
+                  step="0.01"
+                  value={form.receivedAmount}
+                  onChange={handleChange}
+                  className="pl-7"
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+          </div>
+          {!isLoadingTerms && adjusted.notice && !adjusted.error && (
+            <p className="text-orange-600 text-xs flex items-start gap-1">
+              <span className="text-orange-500 mt-0.5">ℹ</span>
+              {adjusted.notice}
+            </p>
+          )}
+          {!isLoadingTerms && adjusted.error && (
+            <p className="text-red-500 text-xs flex items-start gap-1">
+              <span className="text-red-500 mt-0.5">⚠</span>
+              {adjusted.error}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="editReason">
+              Reason for Correction <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="editReason"
+              name="reason"
+              value={form.reason}
+              onChange={handleChange}
+              placeholder="e.g. Received amount mistyped"
+              required
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={updateEntryMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={updateEntryMutation.isPending || isLoadingTerms || !!adjusted.error}>
+              {updateEntryMutation.isPending && (
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save Correction
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditEntryDialog;
@@ -13,21 +13,52 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   LoaderCircle,
   PlusCircle,
   ChevronUp,
   ChevronDown,
   Info,
+  PenSquare,
+  Undo2,
+  Printer,
+  FileText,
 } from "lucide-react";
 import CustomPagination from "@/components/common/custom-pagination";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { motion, AnimatePresence } from "framer-motion";
 import { get, post } from "@/services/apiService";
 import { formatCurrency } from "@/lib/formatter";
+import { INTEREST_MODEL_LABELS, DEFAULT_INTEREST_MODEL } from "@/config/interestModels";
+import { PAYMENT_MODES, PAYMENT_MODE_LABELS } from "@/config/paymentModes";
+import { calculateFormInterest } from "@/modules/Loans/interestCalculation";
+import PaymentModeFields from "@/modules/Loans/PaymentModeFields";
+import {
+  EMPTY_PAYMENT_DETAILS,
+  EntryPaymentInfo,
+  PaymentDetails,
+  getPaymentModeLabel,
+  getPaymentReference,
+  toPaymentPayload,
+  validatePaymentDetails,
+} from "@/modules/Loans/paymentDetails";
+import EditEntryDialog from "@/modules/Loans/EditEntryDialog";
+import ReverseEntryDialog from "@/modules/Loans/ReverseEntryDialog";
+import LoanStatementDialog from "@/modules/Loans/LoanStatementDialog";
+import ReceiptDialog from "@/modules/Loans/ReceiptDialog";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
 
 // -------------------- TYPES --------------------
-interface Entry {
+interface Entry extends EntryPaymentInfo {
   id: number;
   loanId: number;
   entryDate: string;
@@ -36,6 +67,12 @@ interface Entry {
   receivedDate?: string | null;
   receivedAmount?: number | null;
   receivedInterest?: number | null;
+  /** Contra entry posted to reverse another entry */
+  isReversal?: boolean;
+  reversedEntryId?: number | null;
+  /** Set on the original entry once it has been reversed */
+  reversedAt?: string | null;
+  reversalReason?: string | null;
   loan?: { partyId: number };
 }
 
@@ -52,12 +89,18 @@ const Entries = () => {
   const searchParams = new URLSearchParams(location.search);
   const loanIdParam = searchParams.get("loanId");
   const partyIdParam = searchParams.get("partyId");
+  const { can } = useRoleAccess();
 
   const [page, setPage] = useState(1);
   const [limit, setLimit] = useState(10);
   const [sortBy, setSortBy] = useState("entryDate");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [entryToEdit, setEntryToEdit] = useState<Entry | null>(null);
+  const [entryToReverse, setEntryToReverse] = useState<Entry | null>(null);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [receiptEntryId, setReceiptEntryId] = useState<number | null>(null);
+  const [paymentModeFilter, setPaymentModeFilter] = useState("all");
 
   const queryClient = useQueryClient();
 
@@ -70,7 +113,7 @@ const Entries = () => {
   } = useQuery<PaginatedEntriesResponse, any>({
     queryKey: [
       "entries",
-      { page, limit, sortBy, sortOrder, loanIdParam, partyIdParam },
+      { page, limit, sortBy, sortOrder, loanIdParam, partyIdParam, paymentModeFilter },
     ],
     queryFn: async () => {
       const params: Record<string, any> = {
@@ -80,6 +123,7 @@ const Entries = () => {
         sortOrder,
       };
       if (loanIdParam) params.loanId = loanIdParam;
+      if (paymentModeFilter !== "all") params.paymentMode = paymentModeFilter;
       // Backend currently only supports loanId filter.
       const res = await get("/entries", params);
       if (partyIdParam) {
@@ -114,6 +158,8 @@ const Entries = () => {
       queryClient.invalidateQueries({ queryKey: ["entries"] });
       queryClient.invalidateQueries({ queryKey: ["loans"] });
       setShowCreateForm(false);
+      const entryId = data?.entry?.id ?? data?.id;
+      if (entryId) setReceiptEntryId(entryId);
     },
     onError: (err: any) => {
       toast.error(err.message || "Failed to create entry");
@@ -135,12 +181,21 @@ const Entries = () => {
     <motion.div layout className="p-4 space-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold">Entries</h1>
-        <Button
-          onClick={() => setShowCreateForm(!showCreateForm)}
-          className="gap-2"
-        >
-          <PlusCircle className="h-4 w-4" /> {showCreateForm ? 'Hide Form' : 'Add Entry'}
-        </Button>
+        <div className="flex items-center gap-2">
+          {loanIdParam && (
+            <Button variant="outline" onClick={() => setIsStatementOpen(true)} className="gap-2">
+              <FileText className="h-4 w-4" /> Statement
+            </Button>
+          )}
+          {can(MODULES.ENTRIES, PERMISSIONS.CREATE) && (
+            <Button
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="gap-2"
+            >
+              <PlusCircle className="h-4 w-4" /> {showCreateForm ? 'Hide Form' : 'Add Entry'}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Create Entry Form */}
@@ -173,6 +228,25 @@ const Entries = () => {
         <CardHeader>
           <div className="flex items-center justify-between">
             <span className="font-medium">Entries List</span>
+            <Select
+              value={paymentModeFilter}
+              onValueChange={(value) => {
+                setPaymentModeFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Payment mode" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Modes</SelectItem>
+                {Object.values(PAYMENT_MODES).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {PAYMENT_MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent>
@@ -208,22 +282,93 @@ const Entries = () => {
                     <TableHead>Interest Amount</TableHead>
                     <TableHead>Received Amount</TableHead>
                     <TableHead>Received Interest</TableHead>
+                    <TableHead>Mode</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {data?.entries.length ? (
                     data.entries.map((entry) => (
-                      <TableRow key={entry.id}>
+                      <TableRow
+                        key={entry.id}
+                        className={entry.isReversal || entry.reversedAt ? "text-muted-foreground" : undefined}
+                      >
                         <TableCell>{new Date(entry.entryDate).toLocaleDateString()}</TableCell>
                         <TableCell>{formatCurrency(entry.balanceAmount)}</TableCell>
                         <TableCell>{formatCurrency(entry.interestAmount)}</TableCell>
                         <TableCell>{entry.receivedAmount ? formatCurrency(entry.receivedAmount) : "-"}</TableCell>
                         <TableCell>{entry.receivedInterest ? formatCurrency(entry.receivedInterest) : "-"}</TableCell>
+                        <TableCell>
+                          {entry.receivedDate ? (
+                            <div className="flex flex-col">
+                              <span>{getPaymentModeLabel(entry.paymentMode)}</span>
+                              <span className="text-xs text-muted-foreground">{getPaymentReference(entry)}</span>
+                            </div>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {entry.isReversal ? (
+                            <Badge variant="destructive" title={entry.reversalReason ?? undefined}>
+                              Contra #{entry.reversedEntryId}
+                            </Badge>
+                          ) : entry.reversedAt ? (
+                            <Badge variant="secondary" title={entry.reversalReason ?? undefined}>
+                              Reversed
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">Posted</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {entry.receivedDate && !entry.isReversal && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setReceiptEntryId(entry.id)}
+                                title="Reprint Receipt"
+                              >
+                                <Printer className="h-4 w-4" />
+                                <span className="sr-only">Receipt</span>
+                              </Button>
+                            )}
+                            {!entry.isReversal && !entry.reversedAt && (
+                              <>
+                              {can(MODULES.ENTRIES, PERMISSIONS.EDIT) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setEntryToEdit(entry)}
+                                  title="Edit Entry"
+                                >
+                                  <PenSquare className="h-4 w-4" />
+                                  <span className="sr-only">Edit</span>
+                                </Button>
+                              )}
+                              {/* A reversal cancels the entry, so it needs delete rights */}
+                              {can(MODULES.ENTRIES, PERMISSIONS.DELETE) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setEntryToReverse(entry)}
+                                  title="Reverse Entry"
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                  <span className="sr-only">Reverse</span>
+                                </Button>
+                              )}
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-6">
+                      <TableCell colSpan={8} className="text-center py-6">
                         No entries found.
                       </TableCell>
                     </TableRow>
@@ -246,6 +391,34 @@ const Entries = () => {
         </CardContent>
       </Card>
 
+      {entryToEdit && (
+        <EditEntryDialog
+          entry={entryToEdit}
+          isOpen={!!entryToEdit}
+          onClose={() => setEntryToEdit(null)}
+        />
+      )}
+
+      {entryToReverse && (
+        <ReverseEntryDialog
+          entry={entryToReverse}
+          isOpen={!!entryToReverse}
+          onClose={() => setEntryToReverse(null)}
+        />
+      )}
+
+      {receiptEntryId && (
+        <ReceiptDialog entryId={receiptEntryId} isOpen={!!receiptEntryId} onClose={() => setReceiptEntryId(null)} />
+      )}
+
+      {/* Loan Statement Dialog */}
+      {loanIdParam && (
+        <LoanStatementDialog
+          loanId={Number(loanIdParam)}
+          isOpen={isStatementOpen}
+          onClose={() => setIsStatementOpen(false)}
+        />
+      )}
     </motion.div>
   );
 };
@@ -276,17 +449,21 @@ const CreateEntryForm = ({
   const [form, setForm] = useState({
     loanId: loanIdPrefill ?? "",
     entryDate: getTodayDate(),
+    loanAmount: "",
     balanceAmount: "",
     balanceInterest: "",
     interestPercentage: "",
+    interestModel: "",
+    tenureMonths: "",
     interestAmount: "",
-    totalPendingInterest: "",
     receivedDate: getTodayDate(),
     receivedAmount: "",
     receivedInterest: "",
   });
 
   const [validationErrors, setValidationErrors] = useState<{ [key: string]: string }>({});
+  const [paymentDetails, setPaymentDetails] = useState<PaymentDetails>(EMPTY_PAYMENT_DETAILS);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
   const [baseReceivedAmount, setBaseReceivedAmount] = useState<number>(0);
   const [isInterestAdjusting, setIsInterestAdjusting] = useState<boolean>(false);
   const [isClosed, setIsClosed] = useState<boolean>(false);
@@ -303,12 +480,14 @@ const CreateEntryForm = ({
       const response = await get(`/entries/loan/${loanId}/details`);
       setForm((prev) => ({
         ...prev,
+        loanAmount: (response.loanAmount ?? response.balanceAmount).toString(),
         balanceAmount: response.balanceAmount.toString(),
         balanceInterest: response.balanceInterest.toString(),
         interestPercentage: response.interest.toString(),
+        interestModel: response.interestModel || DEFAULT_INTEREST_MODEL,
+        tenureMonths: response.tenureMonths?.toString() || "",
         interestAmount: response.calculatedInterestAmount.toString(),
         entryDate: response.nextEntryDate ? response.nextEntryDate.split('T')[0] : prev.entryDate,
-        totalPendingInterest: response.totalPendingInterest.toString(),
       }));
       setValidationErrors({});
       setBaseReceivedAmount(0);
@@ -324,7 +503,7 @@ const CreateEntryForm = ({
     const errors: { [key: string]: string } = {};
     const receivedInterest = parseFloat(updatedForm.receivedInterest || '0');
     const currentReceivedAmount = parseFloat(updatedForm.receivedAmount || '0');
-    const totalPendingInterest = parseFloat(updatedForm.totalPendingInterest || '0');
+    const { totalPendingInterest } = calculateFormInterest(updatedForm);
     const balanceAmount = parseFloat(updatedForm.balanceAmount || '0');
 
     let adjustedReceivedAmount = currentReceivedAmount;
@@ -390,9 +569,16 @@ const CreateEntryForm = ({
     if (form.receivedDate) payload.receivedDate = form.receivedDate;
     if (form.receivedAmount) payload.receivedAmount = Number(form.receivedAmount);
     if (form.receivedInterest) payload.receivedInterest = Number(form.receivedInterest);
-    onSubmit(payload);
+    const referenceError = validatePaymentDetails(paymentDetails);
+    setPaymentError(referenceError);
+    if (referenceError) return;
+    onSubmit({ ...payload, ...toPaymentPayload(paymentDetails) });
   };
 
+  const monthlyInterest = calculateFormInterest(form);
+  const interestModel = monthlyInterest.model;
+  const interestBreakdown = monthlyInterest.breakdown;
+
   return (
     <form className="space-y-6" onSubmit={handleSubmit}>
       {!loanIdPrefill && (
@@ -432,6 +618,7 @@ const CreateEntryForm = ({
                 <label className="text-sm font-medium text-gray-600">Interest Rate</label>
                 <div className="py-2 px-1">
                   <span className="text-base font-semibold text-gray-900">{parseFloat(form.interestPercentage || '0').toFixed(2)}%</span>
+                  <span className="ml-2 text-xs text-gray-500">{INTEREST_MODEL_LABELS[interestModel]}</span>
                 </div>
               </div>
               <div className="space-y-2">
@@ -453,23 +640,25 @@ const CreateEntryForm = ({
                       </DialogHeader>
                       <div className="space-y-3 text-sm">
                         <div className="flex justify-between py-2 border-b border-gray-100">
-                          <span className="text-gray-600">Interest on Balance</span>
-                          <span className="font-semibold">₹{((parseFloat(form.balanceAmount || '0') * parseFloat(form.interestPercentage || '0')) / 100).toFixed(2)}</span>
-                        </div>
-                        <div className="flex justify-between py-2 border-b border-gray-100">
-                          <span className="text-gray-600">Current Balance Interest</span>
-                          <span className="font-semibold">₹{parseFloat(form.balanceInterest || '0').toFixed(2)}</span>
+                          <span className="text-gray-600">Interest Model</span>
+                          <span className="font-semibold">{INTEREST_MODEL_LABELS[interestModel]}</span>
                         </div>
+                        {interestBreakdown.map((line) => (
+                          <div key={line.label} className="flex justify-between py-2 border-b border-gray-100">
+                            <span className="text-gray-600">{line.label}</span>
+                            <span className="font-semibold">₹{line.amount.toFixed(2)}</span>
+                          </div>
+                        ))}
                         <div className="flex justify-between py-2 border-t-2 border-gray-300 font-semibold">
                           <span className="text-gray-800">Total Interest Amount</span>
-                          <span className="text-lg text-blue-600">₹{parseFloat(form.totalPendingInterest || '0').toFixed(2)}</span>
+                          <span className="text-lg text-blue-600">₹{monthlyInterest.totalPendingInterest.toFixed(2)}</span>
                         </div>
                       </div>
                     </DialogContent>
                   </Dialog>
                 </label>
                 <div className="py-2 px-1 bg-blue-50 rounded">
-                  <span className="text-base font-semibold text-blue-900">₹{parseFloat(form.totalPendingInterest || '0').toFixed(2)}</span>
+                  <span className="text-base font-semibold text-blue-900">₹{monthlyInterest.totalPendingInterest.toFixed(2)}</span>
                 </div>
               </div>
             </div>
@@ -545,6 +734,14 @@ const CreateEntryForm = ({
               )}
             </div>
           </div>
+          <PaymentModeFields
+            value={paymentDetails}
+            onChange={(details) => {
+              setPaymentDetails(details);
+              setPaymentError(null);
+            }}
+            error={paymentError}
+          />
         </div>
       ) : (
         <div className="p-3 rounded border bg-red-50 text-red-700 text-sm">
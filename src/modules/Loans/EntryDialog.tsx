@@ -7,6 +7,18 @@ import { LoaderCircle, Info, XCircle } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { post, get } from "@/services/apiService";
 import CloseAccountDialog from "@/modules/Loans/CloseAccountDialog";
+import ReceiptDialog from "@/modules/Loans/ReceiptDialog";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
+import { INTEREST_MODEL_LABELS, DEFAULT_INTEREST_MODEL } from "@/config/interestModels";
+import { calculateFormInterest } from "@/modules/Loans/interestCalculation";
+import PaymentModeFields from "@/modules/Loans/PaymentModeFields";
+import {
+  EMPTY_PAYMENT_DETAILS,
+  PaymentDetails,
+  toPaymentPayload,
+  validatePaymentDetails,
+} from "@/modules/Loans/paymentDetails";
 
 interface EntryDialogProps {
   selectedLoanId: number | null;
@@ -33,8 +45,10 @@ const EntryDialog: React.FC<EntryDialogProps> = ({
   setSelectedLoanId,
 }) => {
   const queryClient = useQueryClient();
+  const { can } = useRoleAccess();
   const [isCloseAccountDialogOpen, setIsCloseAccountDialogOpen] = useState(false);
-  
+  const [receiptEntryId, setReceiptEntryId] = useState<number | null>(null);
+
   const createEntryMutation = useMutation({
     mutationFn: (payload: any) => post("/entries", payload),
     onSuccess: (data) => {
@@ -58,6 +72,9 @@ const EntryDialog: React.FC<EntryDialogProps> = ({
       queryClient.invalidateQueries({ queryKey: ["loans"] });
       setIsEntryDialogOpen(false);
       setSelectedLoanId(null);
+      // Offer the numbered receipt for printing straight away
+      const entryId = data.entry?.id ?? data.id;
+      if (entryId) setReceiptEntryId(entryId);
     },
     onError: (err: any) => {
       toast.error(err.message || "Failed to create entry");
@@ -76,7 +93,8 @@ const EntryDialog: React.FC<EntryDialogProps> = ({
   };
 
   return (
-    selectedLoanId && (
+    <>
+      {selectedLoanId && (
       <>
         <Dialog open={isEntryDialogOpen} onOpenChange={setIsEntryDialogOpen}>
           <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
@@ -91,7 +109,9 @@ const EntryDialog: React.FC<EntryDialogProps> = ({
                 setIsEntryDialogOpen(false);
                 setSelectedLoanId(null);
               }}
-              onCloseAccount={selectedLoanIsClosed ? undefined : handleOpenCloseAccount}
+              onCloseAccount={
+                selectedLoanIsClosed || !can(MODULES.LOANS, PERMISSIONS.CLOSE) ? undefined : handleOpenCloseAccount
+              }
               isClosed={selectedLoanIsClosed}
             />
           </DialogContent>
@@ -108,7 +128,12 @@ const EntryDialog: React.FC<EntryDialogProps> = ({
           onSuccess={handleCloseAccountSuccess}
         />)}
       </>
-    )
+      )}
+
+      {receiptEntryId && (
+        <ReceiptDialog entryId={receiptEntryId} isOpen={!!receiptEntryId} onClose={() => setReceiptEntryId(null)} />
+      )}
+    </>
   );
 };
 
@@ -134,11 +159,13 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
   const [form, setForm] = useState({
     loanId: loanIdPrefill ?? "",
     entryDate: getTodayDate(),
+    loanAmount: "",
     balanceAmount: "",
     balanceInterest: "",
     interestPercentage: "",
+    interestModel: "",
+    tenureMonths: "",
     interestAmount: "",
-    totalPendingInterest: "",
     receivedDate: getTodayDate(),
     receivedAmount: "",
     receivedInterest: "",
@@ -158,12 +185,14 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
       const response = await get(`/entries/loan/${loanId}/details`);
       setForm((prev) => ({
         ...prev,
+        loanAmount: (response.loanAmount ?? response.balanceAmount).toString(),
         balanceAmount: response.balanceAmount.toString(),
         balanceInterest: response.balanceInterest.toString(),
         interestPercentage: response.interest.toString(),
+        interestModel: response.interestModel || DEFAULT_INTEREST_MODEL,
+        tenureMonths: response.tenureMonths?.toString() || "",
         interestAmount: response.calculatedInterestAmount.toString(),
         entryDate: response.nextEntryDate ? response.nextEntryDate.split('T')[0] : prev.entryDate,
-        totalPendingInterest: response.totalPendingInterest.toString(),
       }));
       // Clear validation errors and reset adjustment state when new loan details are loaded
       setValidationErrors({});
@@ -176,6 +205,8 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
   };
 
   const [validationErrors, setValidationErrors] = useState<{[key: string]: string}>({});
+  const [paymentDetails, setPaymentDetails] = useState<PaymentDetails>(EMPTY_PAYMENT_DETAILS);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
   const [baseReceivedAmount, setBaseReceivedAmount] = useState<number>(0); // Track the original amount entered by user
   const [isInterestAdjusting, setIsInterestAdjusting] = useState<boolean>(false); // Track if we're in adjustment mode
 
@@ -184,7 +215,7 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
     
     const receivedInterest = parseFloat(updatedForm.receivedInterest || '0');
     const currentReceivedAmount = parseFloat(updatedForm.receivedAmount || '0');
-    const totalPendingInterest = parseFloat(updatedForm.totalPendingInterest || '0');
+    const { totalPendingInterest } = calculateFormInterest(updatedForm);
     const balanceAmount = parseFloat(updatedForm.balanceAmount || '0');
     
     let adjustedReceivedAmount = currentReceivedAmount;
@@ -262,9 +293,16 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
     if (form.receivedDate) payload.receivedDate = form.receivedDate;
     if (form.receivedAmount) payload.receivedAmount = Number(form.receivedAmount);
     if (form.receivedInterest) payload.receivedInterest = Number(form.receivedInterest);
-    onSubmit(payload);
+    const referenceError = validatePaymentDetails(paymentDetails);
+    setPaymentError(referenceError);
+    if (referenceError) return;
+    onSubmit({ ...payload, ...toPaymentPayload(paymentDetails) });
   };
 
+  const monthlyInterest = calculateFormInterest(form);
+  const interestModel = monthlyInterest.model;
+  const interestBreakdown = monthlyInterest.breakdown;
+
   return (
     <form className="space-y-6" onSubmit={handleSubmit}>
       {!loanIdPrefill && (
@@ -307,6 +345,7 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
                 <label className="text-sm font-medium text-gray-600">Interest Rate</label>
                 <div className="py-2 px-1">
                   <span className="text-base font-semibold text-gray-900">{parseFloat(form.interestPercentage || '0').toFixed(2)}%</span>
+                  <span className="ml-2 text-xs text-gray-500">{INTEREST_MODEL_LABELS[interestModel]}</span>
                 </div>
               </div>
               <div className="space-y-2">
@@ -328,23 +367,25 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
                       </DialogHeader>
                       <div className="space-y-3 text-sm">
                         <div className="flex justify-between py-2 border-b border-gray-100">
-                          <span className="text-gray-600">Interest on Balance</span>
-                          <span className="font-semibold">₹{((parseFloat(form.balanceAmount || '0') * parseFloat(form.interestPercentage || '0')) / 100).toFixed(2)}</span>
-                        </div>
-                        <div className="flex justify-between py-2 border-b border-gray-100">
-                          <span className="text-gray-600">Current Balance Interest</span>
-                          <span className="font-semibold">₹{parseFloat(form.balanceInterest || '0').toFixed(2)}</span>
+                          <span className="text-gray-600">Interest Model</span>
+                          <span className="font-semibold">{INTEREST_MODEL_LABELS[interestModel]}</span>
                         </div>
+                        {interestBreakdown.map((line) => (
+                          <div key={line.label} className="flex justify-between py-2 border-b border-gray-100">
+                            <span className="text-gray-600">{line.label}</span>
+                            <span className="font-semibold">₹{line.amount.toFixed(2)}</span>
+                          </div>
+                        ))}
                         <div className="flex justify-between py-2 border-t-2 border-gray-300 font-semibold">
                           <span className="text-gray-800">Total Interest Amount</span>
-                          <span className="text-lg text-blue-600">₹{parseFloat(form.totalPendingInterest || '0').toFixed(2)}</span>
+                          <span className="text-lg text-blue-600">₹{monthlyInterest.totalPendingInterest.toFixed(2)}</span>
                         </div>
                       </div>
                     </DialogContent>
                   </Dialog>
                 </label>
                 <div className="py-2 px-1 bg-blue-50 rounded">
-                  <span className="text-base font-semibold text-blue-900">₹{parseFloat(form.totalPendingInterest || '0').toFixed(2)}</span>
+                  <span className="text-base font-semibold text-blue-900">₹{monthlyInterest.totalPendingInterest.toFixed(2)}</span>
                 </div>
               </div>
             </div>
@@ -421,6 +462,14 @@ const CreateEntryForm: React.FC<CreateEntryFormProps> = ({
               )}
             </div>
           </div>
+          <PaymentModeFields
+            value={paymentDetails}
+            onChange={(details) => {
+              setPaymentDetails(details);
+              setPaymentError(null);
+            }}
+            error={paymentError}
+          />
         </div>
       ) : (
         <div className="p-3 rounded border bg-red-50 text-red-700 text-sm">
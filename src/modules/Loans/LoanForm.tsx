@@ -7,6 +7,13 @@ import { Input } from "@/components/ui/input";
 import {Separator} from "@/components/ui/separator";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { LoaderCircle, ChevronDown, Check } from "lucide-react";
 import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
 import { Command, CommandInput, CommandList, CommandEmpty, CommandItem } from "@/components/ui/command";
@@ -16,6 +23,17 @@ import { useNavigate } from "react-router-dom";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { post, put, get } from "@/services/apiService";
 import Validate from "@/lib/Handlevalidation";
+import { formatCurrency } from "@/lib/formatter";
+import { useBranch } from "@/hooks/useBranch";
+import {
+  DEFAULT_INTEREST_MODEL,
+  INTEREST_MODELS,
+  INTEREST_MODEL_LABELS,
+  InterestModel,
+} from "@/config/interestModels";
+import { calculateEmi } from "./interestCalculation";
+import DuplicatePartyDialog from "@/modules/Parties/DuplicatePartyDialog";
+import { findPartyDuplicates, PartyDuplicateCandidate } from "@/modules/Parties/partyDuplicates";
 
 // Helper to extract user-friendly message from API error
 const prettifyFieldName = (key: string): string => {
@@ -54,6 +72,8 @@ interface LoanData {
   interest: number;
   interestPerMonth?: number;
   balanceInterest: number;
+  interestModel?: InterestModel | null;
+  tenureMonths?: number | null;
   referenceMobile1: string;
   referenceMobile2: string;
   createdAt: string;
@@ -71,6 +91,8 @@ const loanFormSchema = z.object({
     interest: z.string()
     .nonempty("Interest is required"),
     balanceInterest: z.string().optional(),
+    interestModel: z.string().optional(),
+    tenureMonths: z.string().optional(),
     // Party fields for create party option
     partyName: z.string().optional(),
     accountNumber: z.string().optional(),
@@ -78,6 +100,8 @@ const loanFormSchema = z.object({
     mobile1: z.string().optional(),
     reference: z.string().optional(),
     referenceMobile1: z.string().optional(),
+    // Branch of the new party; only head-office users pick one
+    branchId: z.number().optional(),
 });
 
 type LoanFormInputs = z.infer<typeof loanFormSchema>;
@@ -85,6 +109,8 @@ type LoanFormInputs = z.infer<typeof loanFormSchema>;
 interface LoanFormProps {
   mode: "create" | "edit";
   loanId?: string;
+  /** Preselects the party when a loan is started from the party page */
+  partyIdPrefill?: number;
   onSuccess?: () => void;
   className?: string;
 }
@@ -92,11 +118,16 @@ interface LoanFormProps {
 const LoanForm = ({
   mode,
   loanId,
+  partyIdPrefill,
   onSuccess,
   className,
 }: LoanFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const [duplicateMatches, setDuplicateMatches] = useState<PartyDuplicateCandidate[]>([]);
+  const [pendingLoanData, setPendingLoanData] = useState<LoanFormInputs | null>(null);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const { branches, isHeadOffice, selectedBranchId } = useBranch();
   // Combined loading loan from fetch and mutations
 
   const {
@@ -110,13 +141,15 @@ const LoanForm = ({
   } = useForm<LoanFormInputs>({
     resolver: zodResolver(loanFormSchema),
     defaultValues: {
-      partyId: "",
+      partyId: partyIdPrefill ? String(partyIdPrefill) : "",
       loanDate: mode === "create" ? new Date().toISOString().split("T")[0] : "",
       loanAmount: "",
       balanceAmount: "",
       interestPerMonth: "",
       interest: "",
       balanceInterest: "0",
+      interestModel: DEFAULT_INTEREST_MODEL,
+      tenureMonths: "",
       // Party fields
       partyName: "",
       accountNumber: "",
@@ -124,12 +157,16 @@ const LoanForm = ({
       mobile1: "",
       reference: "",
       referenceMobile1: "",
+      branchId: selectedBranchId ?? undefined,
     },
   });
 
   // Watch loan amount and interest to auto-populate balance amount and interest per month
   const loanAmount = watch("loanAmount");
   const interest = watch("interest");
+  const interestModel = watch("interestModel");
+  const tenureMonths = watch("tenureMonths");
+  const isEmiLoan = interestModel === INTEREST_MODELS.REDUCING_EMI;
    
   // Auto-populate balance amount when loan amount changes (only in create mode)
   useEffect(() => {
@@ -180,6 +217,8 @@ const LoanForm = ({
         setValue("interest", data.interest.toString());
         setValue("interestPerMonth", data.interestPerMonth?.toString() || "");
         setValue("balanceInterest", data.balanceInterest.toString());
+        setValue("interestModel", data.interestModel || DEFAULT_INTEREST_MODEL);
+        setValue("tenureMonths", data.tenureMonths?.toString() || "");
       }).catch((error) => {
         toast.error(error.message || "Failed to fetch loan details");
         if (onSuccess) {
@@ -282,8 +321,52 @@ const LoanForm = ({
     },
   });
 
+  const buildLoanPayload = (data: LoanFormInputs, partyId: number) => ({
+    partyId,
+    loanDate: data.loanDate,
+    loanAmount: Number(data.loanAmount),
+    balanceAmount: Number(data.balanceAmount) || Number(data.loanAmount),
+    interest: Number(data.interest),
+    interestPerMonth: Number(data.interestPerMonth) || 0,
+    balanceInterest: Number(data.balanceInterest) || 0,
+    interestModel: data.interestModel || DEFAULT_INTEREST_MODEL,
+    tenureMonths: data.interestModel === INTEREST_MODELS.REDUCING_EMI ? Number(data.tenureMonths) : null,
+  });
+
+  const createPartyAndLoan = async (data: LoanFormInputs, duplicateReason?: string) => {
+    // Create party first
+    const partyData = {
+      partyName: data.partyName,
+      accountNumber: data.accountNumber,
+      address: data.address,
+      mobile1: data.mobile1,
+      mobile2: "", // Optional field
+      reference: data.reference,
+      referenceMobile1: data.referenceMobile1,
+      referenceMobile2: "", // Optional field
+      branchId: data.branchId,
+      ...(duplicateReason ? { duplicateReason } : {}),
+    };
+
+    try {
+      const createdParty = await createPartyMutation.mutateAsync(partyData);
+
+      // Create loan with the newly created party ID
+      createLoanMutation.mutate(buildLoanPayload(data, createdParty.id));
+    } catch (error) {
+      // Error handling is already done in createPartyMutation onError
+      console.error("Failed to create party:", error);
+    }
+  };
+
   // Handle form submission
   const onSubmit: SubmitHandler<LoanFormInputs> = async (data) => {
+    // Reducing-balance EMI needs a tenure to work out the instalment
+    if (data.interestModel === INTEREST_MODELS.REDUCING_EMI && !(Number(data.tenureMonths) > 0)) {
+      setError("tenureMonths", { message: "Tenure is required for EMI loans" });
+      return;
+    }
+
     // Conditional validation based on party selection
     if (mode === "create" && selectedParty === "existing") {
       if (!data.partyId) {
@@ -301,53 +384,37 @@ const LoanForm = ({
         if (!data.mobile1) setError("mobile1", { message: "Mobile number is required" });
         return;
       }
+      if (isHeadOffice && !data.branchId) {
+        setError("branchId", { message: "Branch is required" });
+        return;
+      }
 
-      // Create party first
-      const partyData = {
-        partyName: data.partyName,
-        accountNumber: data.accountNumber,
-        address: data.address,
-        mobile1: data.mobile1,
-        mobile2: "", // Optional field
-        reference: data.reference,
-        referenceMobile1: data.referenceMobile1,
-        referenceMobile2: "", // Optional field
-      };
-
+      setIsCheckingDuplicates(true);
       try {
-        const createdParty = await createPartyMutation.mutateAsync(partyData);
-        
-        // Create loan with the newly created party ID
-        const loanPayload = {
-          partyId: createdParty.id,
-          loanDate: data.loanDate,
-          loanAmount: Number(data.loanAmount),
-          balanceAmount: Number(data.balanceAmount) || Number(data.loanAmount),
-          interest: Number(data.interest),
-          interestPerMonth: Number(data.interestPerMonth) || 0,
-          balanceInterest: Number(data.balanceInterest) || 0,
-        };
-        
-        createLoanMutation.mutate(loanPayload);
+        const matches = await findPartyDuplicates({
+          partyName: data.partyName,
+          accountNumber: data.accountNumber,
+          mobile1: data.mobile1,
+        });
+        if (matches.length > 0) {
+          setPendingLoanData(data);
+          setDuplicateMatches(matches);
+          return;
+        }
       } catch (error) {
-        // Error handling is already done in createPartyMutation onError
-        console.error("Failed to create party:", error);
+        console.error("Failed to check for duplicate parties:", error);
+      } finally {
+        setIsCheckingDuplicates(false);
       }
+
+      await createPartyAndLoan(data);
     } else {
       // Convert string inputs to numbers to match backend expectations
       if (!data.partyId) {
         setError("partyId", { message: "Please select a party" });
         return;
       }
-      const payload = {
-        partyId: parseInt(data.partyId, 10),
-        loanDate: data.loanDate,
-        loanAmount: Number(data.loanAmount),
-        balanceAmount: Number(data.balanceAmount) || Number(data.loanAmount),
-        interest: Number(data.interest),
-        interestPerMonth: Number(data.interestPerMonth) || 0,
-        balanceInterest: Number(data.balanceInterest) || 0,
-      };
+      const payload = buildLoanPayload(data, parseInt(data.partyId, 10));
       if (mode === "create") {
         createLoanMutation.mutate(payload);
       } else {
@@ -356,6 +423,28 @@ const LoanForm = ({
     }
   };
 
+  const handleDuplicateDialogClose = () => {
+    setDuplicateMatches([]);
+    setPendingLoanData(null);
+  };
+
+  const handleConfirmNewParty = (reason: string) => {
+    if (pendingLoanData) {
+      createPartyAndLoan(pendingLoanData, reason);
+    }
+    handleDuplicateDialogClose();
+  };
+
+  // Book the loan against the existing borrower instead of creating a second party
+  const handleUseExistingParty = (party: PartyDuplicateCandidate) => {
+    if (pendingLoanData) {
+      setSelectedParty("existing");
+      setValue("partyId", String(party.id));
+      createLoanMutation.mutate(buildLoanPayload(pendingLoanData, party.id));
+    }
+    handleDuplicateDialogClose();
+  };
+
   const handleCancel = () => {
     if (onSuccess) {
       onSuccess();
@@ -365,7 +454,12 @@ const LoanForm = ({
   };
 
   // Combined loading loan from fetch and mutations
-  const isFormLoading = isFetchingLoan || createLoanMutation.isPending || updateLoanMutation.isPending || createPartyMutation.isPending;
+  const isFormLoading =
+    isFetchingLoan ||
+    isCheckingDuplicates ||
+    createLoanMutation.isPending ||
+    updateLoanMutation.isPending ||
+    createPartyMutation.isPending;
 
   // state for combobox popover
   const [openParty, setOpenParty] = useState(false);
@@ -568,6 +662,40 @@ type="tel"
             
               
             </div>
+
+            {/* Branch Field (head office only; everyone else adds to their own branch) */}
+            {isHeadOffice && (
+              <div>
+                <Label htmlFor="branchId" className="block mb-2">Branch <span className="text-red-500">*</span></Label>
+                <Controller
+                  name="branchId"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      value={field.value ? String(field.value) : undefined}
+                      onValueChange={(value) => field.onChange(Number(value))}
+                      disabled={isFormLoading}
+                    >
+                      <SelectTrigger id="branchId" className="w-full">
+                        <SelectValue placeholder="Select a branch" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {branches.map((branch) => (
+                          <SelectItem key={branch.id} value={String(branch.id)}>
+                            {branch.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.branchId && (
+                  <span className="mt-1 block text-xs text-destructive">
+                    {errors.branchId.message}
+                  </span>
+                )}
+              </div>
+            )}
         </div>
         <Separator />
        </div>
@@ -630,8 +758,57 @@ type="tel"
         </div>
         </div>
 
-        {/* Interest */}
-       
+        {/* Interest Model */}
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div>
+            <Label htmlFor="interestModel" className="block mb-2">Interest Model <span className="text-red-500">*</span></Label>
+            <Controller
+              name="interestModel"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange} disabled={isFormLoading}>
+                  <SelectTrigger id="interestModel" className="w-full">
+                    <SelectValue placeholder="Select interest model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTEREST_MODEL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            {errors.interestModel && (
+              <span className="mt-1 block text-xs text-destructive">
+                {errors.interestModel.message}
+              </span>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="tenureMonths" className="block mb-2">
+              Tenure (Months) {isEmiLoan && <span className="text-red-500">*</span>}
+            </Label>
+            <Input
+              type="number"
+              id="tenureMonths"
+              placeholder={isEmiLoan ? "Enter number of instalments" : "Only for EMI loans"}
+              {...register("tenureMonths")}
+              disabled={isFormLoading || !isEmiLoan}
+            />
+            {errors.tenureMonths ? (
+              <span className="mt-1 block text-xs text-destructive">
+                {errors.tenureMonths.message}
+              </span>
+            ) : isEmiLoan && Number(tenureMonths) > 0 && Number(loanAmount) > 0 ? (
+              <span className="mt-1 block text-xs text-muted-foreground">
+                EMI: {formatCurrency(calculateEmi(Number(loanAmount), Number(interest) || 0, Number(tenureMonths)))}
+              </span>
+            ) : null}
+          </div>
+        </div>
+
 
         {/* Additional Fields */}
         <div className="grid grid-cols-3 gap-4 mb-6">
@@ -717,6 +894,15 @@ type="tel"
           </Button>
         </div>
       </form>
+
+      <DuplicatePartyDialog
+        isOpen={duplicateMatches.length > 0}
+        matches={duplicateMatches}
+        onClose={handleDuplicateDialogClose}
+        onUseExisting={handleUseExistingParty}
+        onConfirmNew={handleConfirmNewParty}
+        confirmLabel="Create new party and loan"
+      />
     </div>
   );
 };
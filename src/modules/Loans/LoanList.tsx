@@ -1,6 +1,6 @@
 import React, { useState, useMemo } from "react";
-import { useNavigate } from "react-router-dom";
-import { format, addMonths, parseISO } from "date-fns";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { format, addMonths, parseISO, startOfMonth, endOfMonth } from "date-fns";
 import { formatCurrency } from "@/lib/formatter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
@@ -13,7 +13,15 @@ import {
   TableHead,
   TableHeader,
   TableRow,
+  TableFooter,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -30,6 +38,13 @@ import {
   List,
   ChevronLeft,
   ChevronRight,
+  CalendarClock,
+  FileText,
+  Filter,
+  ChevronUp,
+  ChevronDown,
+  Download,
+  Upload,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -42,13 +57,35 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import CustomPagination from "@/components/common/custom-pagination";
-import { get, del, post } from "@/services/apiService";
+import { PartyLookup } from "@/components/common/party-lookup";
+import { get, del, ApiError } from "@/services/apiService";
 import { format as formatDate } from "date-fns";
 // Import components from current directory
 import CreateLoan from "./CreateLoan";
 import EditLoan from "./EditLoan";
 import EntryDialog from "./EntryDialog";
+import RepaymentScheduleDialog from "./RepaymentScheduleDialog";
+import LoanStatementDialog from "./LoanStatementDialog";
+import { calculateMonthlyInterest } from "./interestCalculation";
+import { InterestModel } from "@/config/interestModels";
+import DayCloseDialog from "@/modules/DayClose/DayCloseDialog";
+import { getFiscalYearPresets } from "@/lib/fiscalYear";
+import { downloadCsv, downloadExcel } from "@/lib/export";
+import { buildLoanLedger, getMonthKeys, LedgerSummaryItem } from "./loanLedgerExport";
+import { fetchAllLoans } from "@/modules/Collections/openLoans";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { useBranch } from "@/hooks/useBranch";
+import { BranchRef } from "@/modules/Branches/branchTypes";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
 
 interface Loan {
   id: number;
@@ -62,6 +99,10 @@ interface Loan {
   isClosed?: boolean;
   closedAt?: string | null;
   closedAmount?: number | null;
+  interestModel?: InterestModel | null;
+  tenureMonths?: number | null;
+  // Loans belong to their party's branch
+  branch?: BranchRef | null;
   party?: {
     partyName: string;
     accountNumber: string;
@@ -91,6 +132,7 @@ interface TableRowData {
     mobile1: string;
     address: string;
   };
+  branch?: BranchRef | null;
   monthlyAmounts?: Record<string, number>; // Fallback for old structure
   monthlyReceivedAmounts?: Record<string, number>; // Fallback for old structure
   monthlyData?: Record<string, MonthlyData>; // New detailed structure
@@ -99,10 +141,31 @@ interface TableRowData {
   totalReceivedAmount?: number;
   totalReceivedInterest?: number;
   interest: number;
+  /** Interest due per month according to the loan's interest model */
+  monthlyInterestDue: number;
+  /** Visible months between the loan date and the closing date, the only ones that accrue interest */
+  activeMonths: string[];
   balanceAmount?: number;
   isClosed?: boolean;
 }
 
+const VISIBLE_MONTH_OPTIONS = [3, 6, 12];
+
+// URL query keys holding the list filters; sort and search live alongside them
+const FILTER_KEYS = [
+  "status",
+  "partyId",
+  "loanDateFrom",
+  "loanDateTo",
+  "minAmount",
+  "maxAmount",
+  "minInterest",
+  "maxInterest",
+  "overdueMonths",
+] as const;
+
+type FilterKey = (typeof FILTER_KEYS)[number];
+
 interface LoansResponse {
   loans: Loan[];
   totalPages: number;
@@ -111,28 +174,80 @@ interface LoansResponse {
 
 const LoanList = () => {
   const navigate = useNavigate();
+  const { can } = useRoleAccess();
+  const { isAllBranches } = useBranch();
   const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [currentPage, setCurrentPage] = useState(1);
   const [recordsPerPage, setRecordsPerPage] = useState(10);
-  const [sortBy] = useState("loanDate");
-  const [sortOrder] = useState<"asc" | "desc">("desc");
-  const [search, setSearch] = useState("");
+  // Open the filter panel straight away when following a shared filtered link
+  const [showFilters, setShowFilters] = useState(() => FILTER_KEYS.some((key) => searchParams.get(key)));
+  const sortBy = searchParams.get("sortBy") || "loanDate";
+  const sortOrder = searchParams.get("sortOrder") === "asc" ? "asc" : "desc";
+  const search = searchParams.get("search") || "";
+  const filters = useMemo(() => {
+    const values = {} as Record<FilterKey, string>;
+    FILTER_KEYS.forEach((key) => {
+      values[key] = searchParams.get(key) || "";
+    });
+    return values;
+  }, [searchParams]);
+  const activeFilterCount = FILTER_KEYS.filter((key) => filters[key]).length;
   const [editLoanId, setEditLoanId] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedLoanId, setSelectedLoanId] = useState<number | null>(null);
   const [isEntryDialogOpen, setIsEntryDialogOpen] = useState(false);
   const [selectedLoanIsClosed, setSelectedLoanIsClosed] = useState<boolean>(false);
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(startOfMonth(new Date()));
+  const [visibleMonthCount, setVisibleMonthCount] = useState(3);
+  const [scheduleLoanId, setScheduleLoanId] = useState<number | null>(null);
+  const [statementLoanId, setStatementLoanId] = useState<number | null>(null);
+  const [isDayCloseOpen, setIsDayCloseOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   const handlePrevMonths = () => {
-    setCurrentDate((prevDate) => addMonths(prevDate, -3));
+    setCurrentDate((prevDate) => addMonths(prevDate, -visibleMonthCount));
   };
 
   const handleNextMonths = () => {
-    setCurrentDate((prevDate) => addMonths(prevDate, 3));
+    setCurrentDate((prevDate) => addMonths(prevDate, visibleMonthCount));
   };
 
+  const rangeEnd = endOfMonth(addMonths(currentDate, visibleMonthCount - 1));
+  const fiscalYearPresets = useMemo(() => getFiscalYearPresets(), []);
+
+  const handleRangeStartChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.value) return;
+    setCurrentDate(startOfMonth(parseISO(`${e.target.value}-01`)));
+  };
+
+  const handlePresetChange = (label: string) => {
+    const preset = fiscalYearPresets.find((item) => item.label === label);
+    if (!preset) return;
+    setCurrentDate(preset.start);
+    setVisibleMonthCount(preset.months);
+  };
+
+  // Search, sort and filter parameters shared by the table and the export
+  const loanQueryParams = useMemo(
+    () => ({
+      search,
+      sortBy,
+      sortOrder,
+      isClosed: filters.status === "open" ? false : filters.status === "closed" ? true : undefined,
+      partyId: filters.partyId || undefined,
+      loanDateFrom: filters.loanDateFrom || undefined,
+      loanDateTo: filters.loanDateTo || undefined,
+      minAmount: filters.minAmount || undefined,
+      maxAmount: filters.maxAmount || undefined,
+      minInterest: filters.minInterest || undefined,
+      maxInterest: filters.maxInterest || undefined,
+      overdueMonths: filters.overdueMonths || undefined,
+    }),
+    [search, sortBy, sortOrder, filters]
+  );
+
   // Fetch loans for table display
   const {
     data,
@@ -140,9 +255,9 @@ const LoanList = () => {
     isError,
     error,
   } = useQuery<LoansResponse>({
-    queryKey: ["loans", currentPage, recordsPerPage, search, sortBy, sortOrder],
+    queryKey: ["loans", currentPage, recordsPerPage, loanQueryParams],
     queryFn: () => {
-       return get("/loans", { page: currentPage, limit: recordsPerPage, search, sortBy, sortOrder });
+       return get("/loans", { page: currentPage, limit: recordsPerPage, ...loanQueryParams });
     },
   });
 
@@ -151,10 +266,11 @@ const LoanList = () => {
     data: monthlySummaryData,
     isLoading: isLoadingMonthlySummary,
   } = useQuery({
-    queryKey: ["loans", "monthly-summary", currentDate],
+    queryKey: ["loans", "monthly-summary", currentDate.toISOString(), visibleMonthCount],
     queryFn: () => {
-      const startDate = new Date(currentDate.getFullYear(), 0, 1).toISOString();
-      const endDate = new Date(currentDate.getFullYear(), 11, 31).toISOString();
+      // Only the months visible in the grid are requested
+      const startDate = startOfMonth(currentDate).toISOString();
+      const endDate = rangeEnd.toISOString();
       return get("/loans/monthly-summary", { startDate, endDate });
     },
   });
@@ -172,6 +288,44 @@ const LoanList = () => {
   });
 
 
+  // Export every loan matching the current filters, for the visible months or since the oldest loan
+  const handleExport = async (fileType: "excel" | "csv", range: "visible" | "full") => {
+    setIsExporting(true);
+    try {
+      const loans = await fetchAllLoans<Loan>(loanQueryParams);
+      if (loans.length === 0) {
+        toast.error("No loans to export");
+        return;
+      }
+
+      const rangeStart =
+        range === "visible"
+          ? currentDate
+          : startOfMonth(new Date(Math.min(...loans.map((loan) => parseISO(loan.loanDate).getTime()))));
+      const rangeFinish = range === "visible" ? rangeEnd : endOfMonth(new Date());
+      const summaryResponse: { summary?: LedgerSummaryItem[] } = await get("/loans/monthly-summary", {
+        startDate: rangeStart.toISOString(),
+        endDate: rangeFinish.toISOString(),
+      });
+
+      const { headers, rows } = buildLoanLedger(
+        loans,
+        summaryResponse.summary ?? [],
+        getMonthKeys(rangeStart, rangeFinish)
+      );
+      const filename = `loans-${format(rangeStart, "MMM-yyyy")}-to-${format(rangeFinish, "MMM-yyyy")}`;
+      if (fileType === "excel") {
+        downloadExcel(`${filename}.xls`, "Loans", headers, rows);
+      } else {
+        downloadCsv(`${filename}.csv`, headers, rows);
+      }
+    } catch (error) {
+      toast.error((error as ApiError).message || "Failed to export loans");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Fetch latest day close info
   const {
     data: lastCloseData,
@@ -180,31 +334,54 @@ const LoanList = () => {
     queryFn: () => get("/api/day-closes/last"),
   });
 
-  // Day Close mutation
-  const dayCloseMutation = useMutation({
-    mutationFn: () => post("/api/day-closes", {}),
-    onSuccess: (data: any) => {
-      const nextDayFormatted = data.nextDay ? formatDate(new Date(data.nextDay), "dd MMM yyyy") : "";
-      toast.success(`Day closed. Next day: ${nextDayFormatted}`);
-      queryClient.invalidateQueries({ queryKey: ["loans"] });
-      queryClient.invalidateQueries({ queryKey: ["lastDayClose"] });
-    },
-    onError: (error: any) => {
-      toast.error(error.response?.data?.message || error.message || "Failed to perform day close");
-    },
-  });
-
-  const handleDayClose = () => {
-    dayCloseMutation.mutate();
+  // Write filter, sort and search changes to the URL so the view can be shared
+  const updateSearchParams = (updates: Record<string, string>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(updates).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        return next;
+      },
+      { replace: true }
+    );
+    setCurrentPage(1); // Reset to first page when filters change
   };
 
-
   // Handle search input
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearch(e.target.value);
-    setCurrentPage(1); // Reset to first page when search changes
+    updateSearchParams({ search: e.target.value });
+  };
+
+  const handleFilterChange = (key: FilterKey, value: string) => {
+    updateSearchParams({ [key]: value });
+  };
+
+  const handleClearFilters = () => {
+    updateSearchParams(Object.fromEntries(FILTER_KEYS.map((key) => [key, ""])));
+  };
+
+  // Handle sort
+  const handleSort = (column: string) => {
+    if (sortBy === column) {
+      updateSearchParams({ sortOrder: sortOrder === "asc" ? "desc" : "asc" });
+    } else {
+      updateSearchParams({ sortBy: column, sortOrder: "asc" });
+    }
   };
 
+  const renderSortIcon = (column: string) =>
+    sortBy === column && (
+      <span className="ml-1 inline-block align-middle">
+        {sortOrder === "asc" ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </span>
+    );
+
   // Handle pagination
   const handlePageChange = (newPage: number) => {
     if (newPage > 0 && (!data || newPage <= data.totalPages)) {
@@ -235,11 +412,9 @@ const LoanList = () => {
   };
 
   const { tableData, months } = useMemo(() => {
-    // Prepare 3-month window header starting from currentDate
-    const visibleMonths: string[] = [];
-    for (let i = 0; i < 3; i++) {
-      visibleMonths.push(format(addMonths(currentDate, i), "MMMM yyyy"));
-    }
+    // Prepare the month window header starting from currentDate
+    const visibleMonthDates = Array.from({ length: visibleMonthCount }, (_, i) => addMonths(currentDate, i));
+    const visibleMonths = visibleMonthDates.map((date) => format(date, "MMMM yyyy"));
 
     // If we don't have any loans, bail out early
     if (!data?.loans || data.loans.length === 0) {
@@ -258,12 +433,15 @@ const LoanList = () => {
     const tableData = data.loans.map((loan) => {
       const monthOfLoan = format(parseISO(loan.loanDate), "MMMM yyyy");
       const summary = summaryMap.get(loan.id);
+      const firstMonth = startOfMonth(parseISO(loan.loanDate));
+      const lastMonth = loan.isClosed && loan.closedAt ? startOfMonth(parseISO(loan.closedAt)) : null;
 
       return {
         id: loan.id,
         loanDate: loan.loanDate,
         partyName: loan.party?.partyName || loan.partyName,
         party: loan.party,
+        branch: loan.branch,
 
         // Old structure – retain for backwards compatibility / fallback
         monthlyAmounts: {
@@ -279,12 +457,52 @@ const LoanList = () => {
         totalBalanceInterest: loan.balanceInterest,
         balanceAmount: loan.balanceAmount,
         interest: loan.interest,
+        monthlyInterestDue: calculateMonthlyInterest({
+          interestModel: loan.interestModel,
+          loanAmount: loan.loanAmount,
+          balanceAmount: loan.balanceAmount,
+          balanceInterest: loan.balanceInterest,
+          interest: loan.interest,
+          tenureMonths: loan.tenureMonths,
+        }).interestDue,
+        activeMonths: visibleMonths.filter((_, i) => {
+          const month = startOfMonth(visibleMonthDates[i]);
+          return month >= firstMonth && (!lastMonth || month <= lastMonth);
+        }),
         isClosed: loan.isClosed,
       } as TableRowData;
     });
 
     return { tableData, months: visibleMonths };
-  }, [data, currentDate, monthlySummaryData]);
+  }, [data, currentDate, visibleMonthCount, monthlySummaryData]);
+
+  // Column totals for the rows on the current page
+  const totals = useMemo(() => {
+    const monthTotals: Record<string, { interestDue: number; receivedInterest: number; receivedAmount: number }> = {};
+    months.forEach((month) => {
+      monthTotals[month] = { interestDue: 0, receivedInterest: 0, receivedAmount: 0 };
+    });
+    let loanAmount = 0;
+    let remainingInterest = 0;
+    let balancePending = 0;
+
+    tableData.forEach((row) => {
+      loanAmount += row.totalLoanAmount;
+      remainingInterest += row.totalBalanceInterest ?? 0;
+      balancePending += row.balanceAmount ?? 0;
+      months.forEach((month) => {
+        const monthData = row.monthlyData?.[month];
+        if (row.activeMonths.includes(month)) {
+          monthTotals[month].interestDue += row.monthlyInterestDue;
+        }
+        monthTotals[month].receivedInterest +=
+          monthData?.receivedInterest || row.monthlyReceivedAmounts?.[month] || 0;
+        monthTotals[month].receivedAmount += monthData?.receivedAmount || 0;
+      });
+    });
+
+    return { monthTotals, loanAmount, remainingInterest, balancePending };
+  }, [tableData, months]);
 
 
 
@@ -327,9 +545,9 @@ const LoanList = () => {
                 />
               </div>
               {lastCloseData?.lastClose && (
-                <div className="text-xs text-muted-foreground">
+                <button type="button" className="text-xs text-muted-foreground hover:underline" onClick={() => navigate("/day-closes")}>
                   Latest close: {formatDate(new Date(lastCloseData.lastClose.closedAt), "dd MMM yyyy, hh:mm a")} 
-                </div>
+                </button>
               )}
             </div>
           </div>
@@ -360,7 +578,7 @@ const LoanList = () => {
               Prev
             </Button>
             <span className="text-xs md:text-sm font-medium text-center whitespace-nowrap">
-              {format(currentDate, "MMM yyyy")} - {format(addMonths(currentDate, 2), "MMM yyyy")}
+              {format(currentDate, "MMM yyyy")} - {format(rangeEnd, "MMM yyyy")}
             </span>
             <Button onClick={handleNextMonths} variant="outline">
               Next
@@ -369,56 +587,243 @@ const LoanList = () => {
           </div>
 
 <div className="flex justify-end min-[765px]:justify-self-end gap-2">
-            {/* Day Close Button */}
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button size="sm" variant="outline" disabled={dayCloseMutation.isPending}>
-                  {dayCloseMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
-                  Dayclose
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This will perform the day close operation for the current month. This action cannot be undone.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction onClick={handleDayClose}>
-                    Continue
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
-
-            {/* Action Buttons */}
             <Button
-              onClick={() => setIsCreateDialogOpen(true)}
               size="sm"
+              variant={showFilters || activeFilterCount > 0 ? "default" : "outline"}
+              onClick={() => setShowFilters(!showFilters)}
             >
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add
+              <Filter className="mr-2 h-4 w-4" />
+              Filters
+              {activeFilterCount > 0 && (
+                <span className="ml-2 bg-white text-primary font-medium rounded-full px-2 py-0.5 text-xs">
+                  {activeFilterCount}
+                </span>
+              )}
             </Button>
+
+            {/* Export */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline" disabled={isExporting}>
+                  {isExporting ? (
+                    <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-2 h-4 w-4" />
+                  )}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Visible months</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleExport("excel", "visible")}>Excel (.xls)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("csv", "visible")}>CSV</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Full range</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleExport("excel", "full")}>Excel (.xls)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("csv", "full")}>CSV</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            {can(MODULES.MIGRATION, PERMISSIONS.VIEW) && (
+              <Button size="sm" variant="outline" onClick={() => navigate("/loans/migration")}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import History
+              </Button>
+            )}
+
+            {/* Day Close Button */}
+            {can(MODULES.DAY_CLOSE, PERMISSIONS.DAY_CLOSE) && (
+              <Button size="sm" variant="outline" onClick={() => setIsDayCloseOpen(true)}>
+                Dayclose
+              </Button>
+            )}
+
+            {/* Action Buttons */}
+            {can(MODULES.LOANS, PERMISSIONS.CREATE) && (
+              <Button
+                onClick={() => setIsCreateDialogOpen(true)}
+                size="sm"
+              >
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            )}
           </div>
           </div>
 
- 
+          {/* Collapsible Filters Section */}
+          {showFilters && (
+            <Card className="p-4 mb-4">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Status</label>
+                  <Select
+                    value={filters.status || "all"}
+                    onValueChange={(value) => handleFilterChange("status", value === "all" ? "" : value)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Filter by status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Loans</SelectItem>
+                      <SelectItem value="open">Open Loans</SelectItem>
+                      <SelectItem value="closed">Closed Loans</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Party</label>
+                  <PartyLookup
+                    value={filters.partyId}
+                    onChange={(value) => handleFilterChange("partyId", value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Loan Date</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="date"
+                      value={filters.loanDateFrom}
+                      onChange={(e) => handleFilterChange("loanDateFrom", e.target.value)}
+                      aria-label="Loan date from"
+                    />
+                    <Input
+                      type="date"
+                      value={filters.loanDateTo}
+                      onChange={(e) => handleFilterChange("loanDateTo", e.target.value)}
+                      aria-label="Loan date to"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Overdue By (Months)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Any"
+                    value={filters.overdueMonths}
+                    onChange={(e) => handleFilterChange("overdueMonths", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Loan Amount (₹)</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Min"
+                      value={filters.minAmount}
+                      onChange={(e) => handleFilterChange("minAmount", e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Max"
+                      value={filters.maxAmount}
+                      onChange={(e) => handleFilterChange("maxAmount", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Interest Rate (%)</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Min"
+                      value={filters.minInterest}
+                      onChange={(e) => handleFilterChange("minInterest", e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Max"
+                      value={filters.maxInterest}
+                      onChange={(e) => handleFilterChange("maxInterest", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-end justify-end lg:col-span-2">
+                  <Button size="sm" onClick={handleClearFilters} disabled={activeFilterCount === 0}>
+                    Clear Filters
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {/* Month range */}
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <Input
+              type="month"
+              value={format(currentDate, "yyyy-MM")}
+              onChange={handleRangeStartChange}
+              className="w-44"
+              aria-label="Start month"
+            />
+            <Select
+              value={String(visibleMonthCount)}
+              onValueChange={(value) => setVisibleMonthCount(Number(value))}
+            >
+              <SelectTrigger className="w-36" aria-label="Visible months">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISIBLE_MONTH_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count} months
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value="" onValueChange={handlePresetChange}>
+              <SelectTrigger className="w-56" aria-label="Range preset">
+                <SelectValue placeholder="Presets" />
+              </SelectTrigger>
+              <SelectContent>
+                {fiscalYearPresets.map((preset) => (
+                  <SelectItem key={preset.label} value={preset.label}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Loans Table */}
           <div className="rounded-md border overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow className="bg-muted/50 hover:bg-muted/50 divide-x divide-border">
-                  <TableHead className="text-center">Account Number</TableHead>
-                  <TableHead className="text-center">Date</TableHead>
-                  <TableHead>Party</TableHead>
-                  <TableHead className="text-center">Loan(Interest)</TableHead>
+                  <TableHead className="text-center cursor-pointer" onClick={() => handleSort("accountNumber")}>
+                    Account Number{renderSortIcon("accountNumber")}
+                  </TableHead>
+                  <TableHead className="text-center cursor-pointer" onClick={() => handleSort("loanDate")}>
+                    Date{renderSortIcon("loanDate")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("partyName")}>
+                    Party{renderSortIcon("partyName")}
+                  </TableHead>
+                  <TableHead className="text-center cursor-pointer" onClick={() => handleSort("loanAmount")}>
+                    Loan(Interest){renderSortIcon("loanAmount")}
+                  </TableHead>
                   {months.map((month: string) => (
                     <TableHead key={month} className="text-center">{month}</TableHead>
                   ))}
-                  <TableHead className="text-center border-r border-gray-300 p-2 md:p-3 text-xs md:text-sm">Remaining Interest</TableHead>
-                  <TableHead className="text-center border-r border-gray-300 p-2 md:p-3 text-xs md:text-sm">Balance Pending</TableHead>
+                  <TableHead
+                    className="text-center border-r border-gray-300 p-2 md:p-3 text-xs md:text-sm cursor-pointer"
+                    onClick={() => handleSort("balanceInterest")}
+                  >
+                    Remaining Interest{renderSortIcon("balanceInterest")}
+                  </TableHead>
+                  <TableHead
+                    className="text-center border-r border-gray-300 p-2 md:p-3 text-xs md:text-sm cursor-pointer"
+                    onClick={() => handleSort("balanceAmount")}
+                  >
+                    Balance Pending{renderSortIcon("balanceAmount")}
+                  </TableHead>
                   <TableHead className="text-center p-2 md:p-3 text-xs md:text-sm">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -459,6 +864,9 @@ const LoanList = () => {
                           <div className="flex flex-col">
                             <span className="text-sm text-muted-foreground">{row.party?.mobile1}</span>
                             <span className="text-sm text-muted-foreground">{row.party?.address}</span>
+                            {isAllBranches && row.branch && (
+                              <span className="text-xs text-muted-foreground">Branch: {row.branch.name}</span>
+                            )}
                           </div>
                         </div>
                       </TableCell>
@@ -483,9 +891,9 @@ const LoanList = () => {
                         return (
                           <TableCell key={month} className="text-center">
                             <div className="flex flex-col gap-1 text-sm md:text-base">
-                              {/* Always show interest amount */}
+                              {/* Interest due, only while the loan is open */}
                               <div className="text-gray-700 dark:text-gray-200 font-semibold text-base md:text-lg tabular-nums">
-                                 {formatCurrency((row.totalLoanAmount * row.interest) / 100)}
+                                 {row.activeMonths.includes(month) ? formatCurrency(row.monthlyInterestDue) : "-"}
                               </div>
                               
                               {/* Show paid amount if available */}
@@ -517,7 +925,25 @@ const LoanList = () => {
                             <List className="h-4 w-4" />
                             <span className="sr-only">Entries</span>
                           </Button>
-                          {!row.isClosed && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setScheduleLoanId(row.id)}
+                            title="Repayment Schedule"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                            <span className="sr-only">Repayment Schedule</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setStatementLoanId(row.id)}
+                            title="Statement"
+                          >
+                            <FileText className="h-4 w-4" />
+                            <span className="sr-only">Statement</span>
+                          </Button>
+                          {!row.isClosed && can(MODULES.LOANS, PERMISSIONS.EDIT) && (
                             <Button
                               variant="ghost"
                               size="icon"
@@ -527,44 +953,70 @@ const LoanList = () => {
                               <span className="sr-only">Edit</span>
                             </Button>
                           )}
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="icon">
-                                <Trash2 className="h-4 w-4" />
-                                <span className="sr-only">Delete</span>
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete this loan? <strong>All entries linked to this loan will be deleted as well.</strong> This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction 
-                                  onClick={() => deleteMutation.mutate(row.id)}
-                                  className="bg-red-500 hover:bg-red-600"
-                                >
-                                  {deleteMutation.isPending ? (
-                                    <>
-                                      <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                                      Deleting...
-                                    </>
-                                  ) : (
-                                    "Delete"
-                                  )}
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                          {can(MODULES.LOANS, PERMISSIONS.DELETE) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon">
+                                  <Trash2 className="h-4 w-4" />
+                                  <span className="sr-only">Delete</span>
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete this loan? <strong>All entries linked to this loan will be deleted as well.</strong> This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction 
+                                    onClick={() => deleteMutation.mutate(row.id)}
+                                    className="bg-red-500 hover:bg-red-600"
+                                  >
+                                    {deleteMutation.isPending ? (
+                                      <>
+                                        <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
+                                        Deleting...
+                                      </>
+                                    ) : (
+                                      "Delete"
+                                    )}
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
                   ))
                 )}
               </TableBody>
+              {!isLoading && !isLoadingMonthlySummary && tableData.length > 0 && (
+                <TableFooter>
+                  <TableRow className="divide-x divide-border font-semibold">
+                    <TableCell colSpan={3} className="text-right">Page Total</TableCell>
+                    <TableCell className="text-center tabular-nums">{formatCurrency(totals.loanAmount)}</TableCell>
+                    {months.map((month) => (
+                      <TableCell key={month} className="text-center">
+                        <div className="flex flex-col gap-1 text-sm tabular-nums">
+                          <span className="text-gray-700 dark:text-gray-200">{formatCurrency(totals.monthTotals[month].interestDue)}</span>
+                          <span className="text-blue-600 dark:text-blue-400">{formatCurrency(totals.monthTotals[month].receivedInterest)}</span>
+                          {totals.monthTotals[month].receivedAmount > 0 && (
+                            <span className="text-green-600 dark:text-green-400 text-xs">
+                              Principal {formatCurrency(totals.monthTotals[month].receivedAmount)}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-center tabular-nums">{formatCurrency(totals.remainingInterest)}</TableCell>
+                    <TableCell className="text-center tabular-nums">{formatCurrency(totals.balancePending)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              )}
             </Table>
           </div>
 
@@ -612,6 +1064,27 @@ const LoanList = () => {
         setIsEntryDialogOpen={setIsEntryDialogOpen}
         setSelectedLoanId={setSelectedLoanId}
       />
+
+      {/* Repayment Schedule Dialog */}
+      {scheduleLoanId && (
+        <RepaymentScheduleDialog
+          loanId={scheduleLoanId}
+          isOpen={!!scheduleLoanId}
+          onClose={() => setScheduleLoanId(null)}
+        />
+      )}
+
+      {/* Loan Statement Dialog */}
+      {statementLoanId && (
+        <LoanStatementDialog
+          loanId={statementLoanId}
+          isOpen={!!statementLoanId}
+          onClose={() => setStatementLoanId(null)}
+        />
+      )}
+
+      {/* Day Close Dialog */}
+      <DayCloseDialog isOpen={isDayCloseOpen} onClose={() => setIsDayCloseOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,339 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { ChevronDown, ChevronRight, DatabaseZap, Download, LoaderCircle } from "lucide-react";
+import { post, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { downloadCsv } from "@/lib/export";
+import { readSpreadsheet, SpreadsheetData } from "@/lib/spreadsheetImport";
+import {
+  buildMigrationDryRun,
+  ENTRY_SHEET_COLUMNS,
+  getMissingColumns,
+  getPartyReferences,
+  LOAN_SHEET_COLUMNS,
+  MigrationDryRun,
+  MigrationLoan,
+  MigrationParty,
+} from "./migrationReplay";
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "dd/MM/yyyy") : "-");
+
+const LoanMigration = () => {
+  const queryClient = useQueryClient();
+  const [loanSheet, setLoanSheet] = useState<SpreadsheetData | null>(null);
+  const [entrySheet, setEntrySheet] = useState<SpreadsheetData | null>(null);
+  const [fileNames, setFileNames] = useState({ loans: "", entries: "" });
+  const [dryRun, setDryRun] = useState<MigrationDryRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [expandedLoan, setExpandedLoan] = useState<string | null>(null);
+
+  const validLoans = dryRun?.loans.filter((loan) => loan.errors.length === 0) ?? [];
+  const rejectedLoans = dryRun?.loans.filter((loan) => loan.errors.length > 0) ?? [];
+  const validEntryCount = validLoans.reduce((sum, loan) => sum + loan.entries.length, 0);
+
+  const commitMutation = useMutation({
+    mutationFn: (loans: MigrationLoan[]) =>
+      post("/loans/migration", {
+        loans: loans.map((loan) => ({
+          loanReference: loan.loanReference,
+          partyId: loan.partyId,
+          loanDate: loan.loanDate,
+          loanAmount: loan.loanAmount,
+          interest: loan.interest,
+          balanceAmount: loan.balanceAmount,
+          balanceInterest: loan.balanceInterest,
+          entries: loan.entries.map((entry) => ({
+            entryDate: entry.entryDate,
+            receivedDate: entry.receivedDate,
+            receivedAmount: entry.receivedAmount,
+            receivedInterest: entry.receivedInterest,
+            interestAmount: entry.interestAmount,
+            balanceAmount: entry.balanceAmount,
+            balanceInterest: entry.balanceInterest,
+          })),
+        })),
+      }),
+    onSuccess: (data) => {
+      toast.success(
+        `Imported ${data?.loansImported ?? validLoans.length} loans and ${data?.entriesImported ?? validEntryCount} entries`
+      );
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+      queryClient.invalidateQueries({ queryKey: ["entries"] });
+      setDryRun(null);
+      setLoanSheet(null);
+      setEntrySheet(null);
+      setFileNames({ loans: "", entries: "" });
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to import loans");
+    },
+  });
+
+  const handleFileChange = (kind: "loans" | "entries") => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const sheet = await readSpreadsheet(file);
+      if (kind === "loans") setLoanSheet(sheet);
+      else setEntrySheet(sheet);
+      setFileNames((current) => ({ ...current, [kind]: file.name }));
+      setDryRun(null);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to read the file");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!loanSheet) return;
+    const missing = getMissingColumns(loanSheet, entrySheet);
+    if (missing.length > 0) {
+      toast.error(`Missing columns: ${missing.join(", ")}`);
+      return;
+    }
+    setIsRunning(true);
+    try {
+      const response = await post("/parties/lookup", { accountNumbers: getPartyReferences(loanSheet) });
+      const parties: MigrationParty[] = response?.parties ?? [];
+      setDryRun(buildMigrationDryRun(loanSheet, entrySheet, parties));
+      setExpandedLoan(null);
+    } catch (error) {
+      toast.error((error as ApiError).message || "Failed to look up parties");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleDownloadTemplate = (kind: "loans" | "entries") => {
+    const columns = kind === "loans" ? LOAN_SHEET_COLUMNS : ENTRY_SHEET_COLUMNS;
+    downloadCsv(`${kind}-migration-template.csv`, Object.values(columns), []);
+  };
+
+  const handleDownloadErrors = () => {
+    if (!dryRun) return;
+    const rows = [
+      ...rejectedLoans.flatMap((loan) => [
+        ["Loans", loan.rowNumber, loan.loanReference, loan.errors.join("; ")],
+        ...loan.entries
+          .filter((entry) => entry.errors.length > 0)
+          .map((entry) => ["Entries", entry.rowNumber, entry.loanReference, entry.errors.join("; ")]),
+      ]),
+      ...dryRun.orphanEntries.map((entry) => ["Entries", entry.rowNumber, entry.loanReference, entry.errors.join("; ")]),
+    ];
+    downloadCsv(`migration-errors-${format(new Date(), "yyyy-MM-dd")}.csv`, ["Sheet", "Row", "Loan Reference", "Errors"], rows);
+  };
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Loan History Migration
+          <CardDescription>
+            Import existing loans and their monthly payment history. Nothing is saved until the dry run is committed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid gap-2 rounded-lg border p-4">
+              <Label htmlFor="loanSheet">Loan sheet (CSV or XLSX)</Label>
+              <Input id="loanSheet" type="file" accept=".csv,.xlsx" onChange={handleFileChange("loans")} />
+              <p className="text-xs text-muted-foreground">
+                {fileNames.loans ? `${fileNames.loans}: ${loanSheet?.rows.length ?? 0} loans. ` : ""}
+                Columns: {Object.values(LOAN_SHEET_COLUMNS).join(", ")}. Party reference is the party's account number.
+              </p>
+              <Button variant="link" size="sm" className="justify-start px-0" onClick={() => handleDownloadTemplate("loans")}>
+                Download loan template
+              </Button>
+            </div>
+            <div className="grid gap-2 rounded-lg border p-4">
+              <Label htmlFor="entrySheet">Entries sheet (CSV or XLSX)</Label>
+              <Input id="entrySheet" type="file" accept=".csv,.xlsx" onChange={handleFileChange("entries")} />
+              <p className="text-xs text-muted-foreground">
+                {fileNames.entries ? `${fileNames.entries}: ${entrySheet?.rows.length ?? 0} entries. ` : ""}
+                Columns: {Object.values(ENTRY_SHEET_COLUMNS).join(", ")}.
+              </p>
+              <Button variant="link" size="sm" className="justify-start px-0" onClick={() => handleDownloadTemplate("entries")}>
+                Download entries template
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleDryRun} disabled={!loanSheet || isRunning}>
+              {isRunning ? <LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> : <DatabaseZap className="mr-2 h-4 w-4" />}
+              Run Dry Run
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {dryRun && (
+        <Card className="border border-border">
+          <CardHeader className="text-lg font-bold">
+            Dry Run
+            <CardDescription>
+              Entries are replayed in date order for each loan. Loans with any error are skipped as a whole.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge className="bg-green-600 hover:bg-green-600">
+                {validLoans.length} loans / {validEntryCount} entries ready
+              </Badge>
+              <Badge variant="destructive">{rejectedLoans.length} loans rejected</Badge>
+              {dryRun.orphanEntries.length > 0 && (
+                <Badge variant="destructive">{dryRun.orphanEntries.length} entries without a loan</Badge>
+              )}
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadErrors}
+                  disabled={rejectedLoans.length === 0 && dryRun.orphanEntries.length === 0}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Error report
+                </Button>
+                <Button
+                  onClick={() => commitMutation.mutate(validLoans)}
+                  disabled={validLoans.length === 0 || commitMutation.isPending}
+                >
+                  {commitMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                  Commit {validLoans.length} loans
+                </Button>
+              </div>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead className="w-8" />
+                    <TableHead>Row</TableHead>
+                    <TableHead>Loan Ref</TableHead>
+                    <TableHead>Party</TableHead>
+                    <TableHead>Loan Date</TableHead>
+                    <TableHead className="text-right">Loan Amount</TableHead>
+                    <TableHead className="text-right">Interest %</TableHead>
+                    <TableHead className="text-center">Entries</TableHead>
+                    <TableHead className="text-right">Final Balance</TableHead>
+                    <TableHead className="text-right">Final Balance Interest</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dryRun.loans.map((loan) => (
+                    <React.Fragment key={loan.rowNumber}>
+                      <TableRow
+                        className={`cursor-pointer ${loan.errors.length ? "bg-red-50 dark:bg-red-900/20" : ""}`}
+                        onClick={() => setExpandedLoan(expandedLoan === loan.loanReference ? null : loan.loanReference)}
+                      >
+                        <TableCell>
+                          {expandedLoan === loan.loanReference ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </TableCell>
+                        <TableCell>{loan.rowNumber}</TableCell>
+                        <TableCell>{loan.loanReference}</TableCell>
+                        <TableCell>{loan.partyName ?? loan.partyReference}</TableCell>
+                        <TableCell>{formatDate(loan.loanDate)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(loan.loanAmount)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{loan.interest}</TableCell>
+                        <TableCell className="text-center">{loan.entries.length}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(loan.balanceAmount)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(loan.balanceInterest)}</TableCell>
+                        <TableCell>
+                          {loan.errors.length === 0 ? (
+                            <span className="text-green-600">Ready</span>
+                          ) : (
+                            <ul className="text-xs text-destructive list-disc pl-4">
+                              {loan.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expandedLoan === loan.loanReference && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell colSpan={11} className="bg-muted/30">
+                            {loan.entries.length === 0 ? (
+                              <div className="text-sm text-muted-foreground py-2">No entries for this loan.</div>
+                            ) : (
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-muted-foreground">
+                                    <th className="p-1 text-left">Row</th>
+                                    <th className="p-1 text-left">Entry Date</th>
+                                    <th className="p-1 text-left">Received Date</th>
+                                    <th className="p-1 text-right">Interest Due</th>
+                                    <th className="p-1 text-right">Received Interest</th>
+                                    <th className="p-1 text-right">Received Amount</th>
+                                    <th className="p-1 text-right">Balance</th>
+                                    <th className="p-1 text-right">Balance Interest</th>
+                                    <th className="p-1 text-left">Notes</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {loan.entries.map((entry) => (
+                                    <tr key={entry.rowNumber} className={entry.errors.length ? "text-destructive" : undefined}>
+                                      <td className="p-1">{entry.rowNumber}</td>
+                                      <td className="p-1">{formatDate(entry.entryDate)}</td>
+                                      <td className="p-1">{formatDate(entry.receivedDate)}</td>
+                                      <td className="p-1 text-right tabular-nums">{formatCurrency(entry.interestAmount)}</td>
+                                      <td className="p-1 text-right tabular-nums">{formatCurrency(entry.receivedInterest)}</td>
+                                      <td className="p-1 text-right tabular-nums">{formatCurrency(entry.receivedAmount)}</td>
+                                      <td className="p-1 text-right tabular-nums">{formatCurrency(entry.balanceAmount)}</td>
+                                      <td className="p-1 text-right tabular-nums">{formatCurrency(entry.balanceInterest)}</td>
+                                      <td className="p-1">{entry.errors.join(" ")}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {dryRun.orphanEntries.length > 0 && (
+              <div className="rounded-md border border-destructive/40 p-3 text-sm">
+                <div className="font-semibold mb-1">Entries without a matching loan</div>
+                <ul className="text-xs text-destructive space-y-0.5">
+                  {dryRun.orphanEntries.map((entry) => (
+                    <li key={entry.rowNumber}>
+                      Row {entry.rowNumber}: {entry.errors.join(" ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default LoanMigration;
@@ -0,0 +1,257 @@
+import React, { useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText, LoaderCircle, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { appName } from "@/config";
+import { get } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { printElement } from "@/lib/export";
+import AuditHistory from "@/modules/Audit/AuditHistory";
+import { fetchAllLoanEntries } from "./loanEntries";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
+import { INTEREST_MODEL_LABELS, InterestModel, DEFAULT_INTEREST_MODEL } from "@/config/interestModels";
+
+interface LoanStatementDialogProps {
+  loanId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface StatementLoan {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  balanceAmount: number;
+  interest: number;
+  balanceInterest: number;
+  interestModel?: InterestModel | null;
+  tenureMonths?: number | null;
+  isClosed?: boolean;
+  closedAt?: string | null;
+  closedAmount?: number | null;
+  party?: {
+    partyName: string;
+    accountNumber: string;
+    address: string;
+    mobile1: string;
+    mobile2?: string | null;
+    reference?: string | null;
+  };
+}
+
+interface StatementEntry {
+  id: number;
+  entryDate: string;
+  interestAmount: number;
+  receivedDate?: string | null;
+  receivedAmount?: number | null;
+  receivedInterest?: number | null;
+  isReversal?: boolean;
+  reversedEntryId?: number | null;
+}
+
+const formatDate = (value?: string | null) => (value ? format(parseISO(value), "dd/MM/yyyy") : "-");
+
+const LoanStatementDialog: React.FC<LoanStatementDialogProps> = ({ loanId, isOpen, onClose }) => {
+  const statementRef = useRef<HTMLDivElement>(null);
+  const { can } = useRoleAccess();
+  // Record history comes from the audit trail, which only audit-log viewers may see
+  const canViewHistory = can(MODULES.AUDIT_LOG, PERMISSIONS.VIEW);
+
+  const { data: loan, isLoading: isLoadingLoan } = useQuery<StatementLoan>({
+    queryKey: ["loan", String(loanId)],
+    queryFn: () => get(`/loans/${loanId}`),
+    enabled: isOpen,
+  });
+
+  const { data: entriesData, isLoading: isLoadingEntries } = useQuery<StatementEntry[]>({
+    queryKey: ["entries", { loanIdParam: String(loanId), all: true }],
+    queryFn: () => fetchAllLoanEntries<StatementEntry>(loanId),
+    enabled: isOpen,
+  });
+
+  // Running principal and interest after each entry; contra entries carry negative amounts
+  const lines = useMemo(() => {
+    if (!loan) return [];
+    let principal = loan.loanAmount;
+    let pendingInterest = 0;
+    return (entriesData ?? []).map((entry) => {
+      principal -= entry.receivedAmount ?? 0;
+      pendingInterest += (entry.interestAmount ?? 0) - (entry.receivedInterest ?? 0);
+      return { entry, principal, pendingInterest: Math.max(pendingInterest, 0) };
+    });
+  }, [loan, entriesData]);
+
+  const totalReceivedAmount = lines.reduce((sum, line) => sum + (line.entry.receivedAmount ?? 0), 0);
+  const totalReceivedInterest = lines.reduce((sum, line) => sum + (line.entry.receivedInterest ?? 0), 0);
+
+  const isLoading = isLoadingLoan || isLoadingEntries;
+
+  const handlePrint = () => {
+    if (statementRef.current && !printElement(statementRef.current, `Loan Statement #${loanId}`)) {
+      toast.error("Please allow popups to print the statement");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Loan Statement #{loanId}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="statement">
+          <TabsList>
+            <TabsTrigger value="statement">Statement</TabsTrigger>
+            {canViewHistory && <TabsTrigger value="history">History</TabsTrigger>}
+          </TabsList>
+          <TabsContent value="statement" className="space-y-4">
+            {isLoading || !loan ? (
+              <div className="flex items-center justify-center py-8">
+                <LoaderCircle className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={handlePrint}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Print / PDF
+                  </Button>
+                </div>
+
+                <div ref={statementRef} className="space-y-4 text-sm">
+                  <div className="flex items-start justify-between border-b pb-3">
+                    <div>
+                      <div className="text-lg font-bold">{appName}</div>
+                      <div className="text-muted-foreground">Loan Statement</div>
+                    </div>
+                    <div className="text-right text-muted-foreground">
+                      <div>Loan #{loan.id}</div>
+                      <div>Generated {format(new Date(), "dd/MM/yyyy hh:mm a")}</div>
+                    </div>
+                  </div>
+
+                  {/* Party and loan terms */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="rounded-lg border p-3 space-y-1">
+                      <div className="font-semibold">{loan.party?.partyName}</div>
+                      <div>Account Number: {loan.party?.accountNumber}</div>
+                      <div>{loan.party?.address}</div>
+                      <div>
+                        Mobile: {loan.party?.mobile1}
+                        {loan.party?.mobile2 && `, ${loan.party.mobile2}`}
+                      </div>
+                      {loan.party?.reference && <div>Reference: {loan.party.reference}</div>}
+                    </div>
+                    <div className="rounded-lg border p-3 grid grid-cols-2 gap-1">
+                      <span className="text-muted-foreground">Loan Date</span>
+                      <span>{formatDate(loan.loanDate)}</span>
+                      <span className="text-muted-foreground">Loan Amount</span>
+                      <span className="tabular-nums">{formatCurrency(loan.loanAmount)}</span>
+                      <span className="text-muted-foreground">Interest Rate</span>
+                      <span>{loan.interest}% per month</span>
+                      <span className="text-muted-foreground">Interest Model</span>
+                      <span>
+                        {INTEREST_MODEL_LABELS[loan.interestModel || DEFAULT_INTEREST_MODEL]}
+                        {loan.tenureMonths ? ` · ${loan.tenureMonths} months` : ""}
+                      </span>
+                      <span className="text-muted-foreground">Status</span>
+                      <span className={loan.isClosed ? "text-red-600 font-medium" : ""}>
+                        {loan.isClosed ? "Closed" : "Open"}
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Entries */}
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="bg-muted/50">
+                        <th className="border p-2 text-left">Entry Date</th>
+                        <th className="border p-2 text-left">Received Date</th>
+                        <th className="border p-2 text-right">Interest Due</th>
+                        <th className="border p-2 text-right">Interest Received</th>
+                        <th className="border p-2 text-right">Principal Received</th>
+                        <th className="border p-2 text-right">Pending Interest</th>
+                        <th className="border p-2 text-right">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        <td className="border p-2">{formatDate(loan.loanDate)}</td>
+                        <td className="border p-2" colSpan={5}>Loan disbursed</td>
+                        <td className="border p-2 text-right tabular-nums">{formatCurrency(loan.loanAmount)}</td>
+                      </tr>
+                      {lines.map(({ entry, principal, pendingInterest }) => (
+                        <tr key={entry.id} className={entry.isReversal ? "text-red-600" : ""}>
+                          <td className="border p-2">
+                            {formatDate(entry.entryDate)}
+                            {entry.isReversal && <span className="ml-1 text-xs">(Contra #{entry.reversedEntryId})</span>}
+                          </td>
+                          <td className="border p-2">{formatDate(entry.receivedDate)}</td>
+                          <td className="border p-2 text-right tabular-nums">{formatCurrency(entry.interestAmount ?? 0)}</td>
+                          <td className="border p-2 text-right tabular-nums">{formatCurrency(entry.receivedInterest ?? 0)}</td>
+                          <td className="border p-2 text-right tabular-nums">{formatCurrency(entry.receivedAmount ?? 0)}</td>
+                          <td className="border p-2 text-right tabular-nums">{formatCurrency(pendingInterest)}</td>
+                          <td className="border p-2 text-right tabular-nums">{formatCurrency(principal)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="font-semibold">
+                        <td className="border p-2" colSpan={3}>Total</td>
+                        <td className="border p-2 text-right tabular-nums">{formatCurrency(totalReceivedInterest)}</td>
+                        <td className="border p-2 text-right tabular-nums">{formatCurrency(totalReceivedAmount)}</td>
+                        <td className="border p-2" colSpan={2}></td>
+                      </tr>
+                    </tfoot>
+                  </table>
+
+                  {/* Outstanding */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 rounded-lg border p-3">
+                    <div>
+                      <div className="text-muted-foreground">Outstanding Principal</div>
+                      <div className="font-semibold tabular-nums">{formatCurrency(loan.balanceAmount)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Pending Interest</div>
+                      <div className="font-semibold tabular-nums">{formatCurrency(loan.balanceInterest)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Total Outstanding</div>
+                      <div className="font-semibold tabular-nums">
+                        {formatCurrency(loan.balanceAmount + loan.balanceInterest)}
+                      </div>
+                    </div>
+                    {loan.isClosed && (
+                      <div>
+                        <div className="text-muted-foreground">Closed On</div>
+                        <div className="font-semibold">
+                          {formatDate(loan.closedAt)} · {formatCurrency(loan.closedAmount ?? 0)}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </TabsContent>
+          {canViewHistory && (
+            <TabsContent value="history">
+              <AuditHistory entityType="loan" entityId={loanId} />
+            </TabsContent>
+          )}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LoanStatementDialog;
@@ -0,0 +1,116 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PAYMENT_MODES, PAYMENT_MODE_LABELS, PaymentMode } from "@/config/paymentModes";
+import { PaymentDetails } from "./paymentDetails";
+
+interface PaymentModeFieldsProps {
+  value: PaymentDetails;
+  onChange: (value: PaymentDetails) => void;
+  error?: string | null;
+}
+
+const PaymentModeFields: React.FC<PaymentModeFieldsProps> = ({ value, onChange, error }) => {
+  const handleFieldChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...value, [e.target.name]: e.target.value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-1">
+        <label className="block text-sm font-bold text-gray-700" htmlFor="paymentMode">
+          Payment Mode <span className="text-red-500">*</span>
+        </label>
+        <Select
+          value={value.paymentMode}
+          onValueChange={(paymentMode) => onChange({ ...value, paymentMode: paymentMode as PaymentMode })}
+        >
+          <SelectTrigger id="paymentMode" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(PAYMENT_MODES).map((mode) => (
+              <SelectItem key={mode} value={mode}>
+                {PAYMENT_MODE_LABELS[mode]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.paymentMode === PAYMENT_MODES.UPI && (
+        <div className="space-y-1 md:col-span-2">
+          <label className="block text-sm font-bold text-gray-700" htmlFor="upiTransactionId">
+            UPI Transaction ID <span className="text-red-500">*</span>
+          </label>
+          <Input
+            id="upiTransactionId"
+            name="upiTransactionId"
+            value={value.upiTransactionId}
+            onChange={handleFieldChange}
+            placeholder="e.g. 412345678901"
+          />
+        </div>
+      )}
+
+      {value.paymentMode === PAYMENT_MODES.CHEQUE && (
+        <>
+          <div className="space-y-1">
+            <label className="block text-sm font-bold text-gray-700" htmlFor="chequeNumber">
+              Cheque Number <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="chequeNumber"
+              name="chequeNumber"
+              value={value.chequeNumber}
+              onChange={handleFieldChange}
+              placeholder="6-digit number"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-bold text-gray-700" htmlFor="chequeBank">
+              Bank <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="chequeBank"
+              name="chequeBank"
+              value={value.chequeBank}
+              onChange={handleFieldChange}
+              placeholder="Drawee bank"
+            />
+          </div>
+        </>
+      )}
+
+      {value.paymentMode === PAYMENT_MODES.BANK_TRANSFER && (
+        <div className="space-y-1 md:col-span-2">
+          <label className="block text-sm font-bold text-gray-700" htmlFor="bankUtr">
+            Bank UTR <span className="text-red-500">*</span>
+          </label>
+          <Input
+            id="bankUtr"
+            name="bankUtr"
+            value={value.bankUtr}
+            onChange={handleFieldChange}
+            placeholder="NEFT/RTGS/IMPS reference"
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-500 text-xs md:col-span-3 flex items-start gap-1">
+          <span className="text-red-500 mt-0.5">⚠</span>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PaymentModeFields;
@@ -0,0 +1,178 @@
+import React, { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LoaderCircle, Printer, ReceiptText } from "lucide-react";
+import { toast } from "sonner";
+import { appName } from "@/config";
+import { get } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { printElement } from "@/lib/export";
+import { amountInWords } from "@/lib/amountInWords";
+import { getFiscalYearLabel } from "@/lib/fiscalYear";
+import { EntryPaymentInfo, getPaymentModeLabel, getPaymentReference } from "./paymentDetails";
+
+interface ReceiptDialogProps {
+  entryId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ReceiptData {
+  /** Sequential number, restarting every fiscal year */
+  receiptNumber: number;
+  fiscalYear?: string;
+  /** Loan balance right after this entry was posted, snapshotted by the server */
+  balanceAfter?: number | null;
+  entry: EntryPaymentInfo & {
+    id: number;
+    entryDate: string;
+    receivedDate: string;
+    receivedAmount?: number | null;
+    receivedInterest?: number | null;
+    /** Loan balance when the entry was posted, before its principal was applied */
+    balanceAmount?: number | null;
+  };
+  loan: {
+    id: number;
+    loanAmount: number;
+    balanceAmount: number;
+    balanceInterest: number;
+    party?: {
+      partyName: string;
+      accountNumber: string;
+      address: string;
+      mobile1: string;
+    };
+  };
+}
+
+const formatReceiptNumber = (receiptNumber: number, fiscalYear: string) =>
+  `${fiscalYear}/${String(receiptNumber).padStart(5, "0")}`;
+
+const ReceiptDialog: React.FC<ReceiptDialogProps> = ({ entryId, isOpen, onClose }) => {
+  const receiptRef = useRef<HTMLDivElement>(null);
+
+  const { data: receipt, isLoading } = useQuery<ReceiptData>({
+    queryKey: ["entries", "receipt", entryId],
+    queryFn: () => get(`/entries/${entryId}/receipt`),
+    enabled: isOpen,
+  });
+
+  const interestReceived = receipt?.entry.receivedInterest ?? 0;
+  const principalReceived = receipt?.entry.receivedAmount ?? 0;
+  const totalReceived = interestReceived + principalReceived;
+  // The loan's current balance would be wrong on reprints once later entries exist
+  const remainingBalance =
+    receipt?.balanceAfter ??
+    (receipt?.entry.balanceAmount != null ? receipt.entry.balanceAmount - principalReceived : null);
+  const fiscalYear =
+    receipt?.fiscalYear ?? (receipt ? getFiscalYearLabel(parseISO(receipt.entry.receivedDate)) : "");
+
+  const handlePrint = () => {
+    if (receiptRef.current && !printElement(receiptRef.current, `Receipt ${receipt?.receiptNumber ?? ""}`)) {
+      toast.error("Please allow popups to print the receipt");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ReceiptText className="h-5 w-5" />
+            Payment Receipt
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !receipt ? (
+          <div className="flex items-center justify-center py-8">
+            <LoaderCircle className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div ref={receiptRef} className="space-y-4 text-sm border rounded-lg p-4">
+              <div className="text-center border-b pb-3">
+                <div className="text-lg font-bold">{appName}</div>
+                <div className="text-muted-foreground">Payment Receipt</div>
+              </div>
+
+              <div className="flex justify-between">
+                <div>
+                  <span className="text-muted-foreground">Receipt No: </span>
+                  <span className="font-semibold">{formatReceiptNumber(receipt.receiptNumber, fiscalYear)}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Date: </span>
+                  <span className="font-semibold">{format(parseISO(receipt.entry.receivedDate), "dd/MM/yyyy")}</span>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <div>
+                  Received from <span className="font-semibold">{receipt.loan.party?.partyName}</span>
+                  {receipt.loan.party?.accountNumber && ` (A/c ${receipt.loan.party.accountNumber})`}
+                </div>
+                {receipt.loan.party?.address && (
+                  <div className="text-muted-foreground">{receipt.loan.party.address}</div>
+                )}
+                <div>
+                  Against Loan <span className="font-semibold">#{receipt.loan.id}</span> of{" "}
+                  {formatCurrency(receipt.loan.loanAmount)}
+                </div>
+              </div>
+
+              <table className="w-full border-collapse">
+                <tbody>
+                  <tr>
+                    <td className="border p-2">Interest Received</td>
+                    <td className="border p-2 text-right tabular-nums">{formatCurrency(interestReceived)}</td>
+                  </tr>
+                  <tr>
+                    <td className="border p-2">Principal Received</td>
+                    <td className="border p-2 text-right tabular-nums">{formatCurrency(principalReceived)}</td>
+                  </tr>
+                  <tr className="font-semibold">
+                    <td className="border p-2">Total Received</td>
+                    <td className="border p-2 text-right tabular-nums">{formatCurrency(totalReceived)}</td>
+                  </tr>
+                  <tr>
+                    <td className="border p-2">Remaining Balance</td>
+                    <td className="border p-2 text-right tabular-nums">{remainingBalance !== null ? formatCurrency(remainingBalance) : "—"}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <div>
+                <span className="text-muted-foreground">Amount in words: </span>
+                <span className="font-medium">{amountInWords(totalReceived)}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Paid by: </span>
+                {getPaymentModeLabel(receipt.entry.paymentMode)}
+                {getPaymentReference(receipt.entry) && ` · ${getPaymentReference(receipt.entry)}`}
+              </div>
+
+              <div className="flex justify-end pt-8">
+                <div className="border-t px-6 pt-1 text-muted-foreground">Authorised Signatory</div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={handlePrint}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Receipt
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptDialog;
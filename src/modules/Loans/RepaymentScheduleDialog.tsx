@@ -0,0 +1,300 @@
+import React, { useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarClock, Download, LoaderCircle, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { get } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { downloadCsv, printElement } from "@/lib/export";
+import { INTEREST_MODEL_LABELS, InterestModel, DEFAULT_INTEREST_MODEL } from "@/config/interestModels";
+import { buildRepaymentSchedule, ScheduleEntry } from "./loanSchedule";
+import { fetchAllLoanEntries } from "./loanEntries";
+
+interface RepaymentScheduleDialogProps {
+  loanId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface LoanDetails {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  balanceAmount: number;
+  interest: number;
+  balanceInterest: number;
+  interestModel?: InterestModel | null;
+  tenureMonths?: number | null;
+  isClosed?: boolean;
+  party?: {
+    partyName: string;
+    accountNumber: string;
+  };
+}
+
+interface EntryDetails {
+  nextEntryDate?: string | null;
+}
+
+const RepaymentScheduleDialog: React.FC<RepaymentScheduleDialogProps> = ({
+  loanId,
+  isOpen,
+  onClose,
+}) => {
+  const [months, setMonths] = useState("12");
+  const [monthlyPrincipal, setMonthlyPrincipal] = useState("0");
+  const [monthlyInterestPaid, setMonthlyInterestPaid] = useState("");
+  const printRef = useRef<HTMLDivElement>(null);
+
+  const { data: loan, isLoading: isLoadingLoan } = useQuery<LoanDetails>({
+    queryKey: ["loan", String(loanId)],
+    queryFn: () => get(`/loans/${loanId}`),
+    enabled: isOpen,
+  });
+
+  const { data: details, isLoading: isLoadingDetails } = useQuery<EntryDetails>({
+    queryKey: ["entries", "loan-details", loanId],
+    queryFn: () => get(`/entries/loan/${loanId}/details`),
+    enabled: isOpen,
+  });
+
+  const { data: entriesData, isLoading: isLoadingEntries } = useQuery<ScheduleEntry[]>({
+    queryKey: ["entries", { loanIdParam: String(loanId), all: true }],
+    queryFn: () => fetchAllLoanEntries<ScheduleEntry>(loanId),
+    enabled: isOpen,
+  });
+
+  const schedule = useMemo(() => {
+    if (!loan) return [];
+    const startDate = details?.nextEntryDate ? parseISO(details.nextEntryDate) : new Date();
+    return buildRepaymentSchedule({
+      interestModel: loan.interestModel,
+      loanAmount: loan.loanAmount,
+      tenureMonths: loan.tenureMonths,
+      balanceAmount: loan.balanceAmount,
+      balanceInterest: loan.balanceInterest,
+      interest: loan.interest,
+      startDate,
+      months: Math.min(Math.max(parseInt(months, 10) || 0, 0), 120),
+      monthlyPrincipal: parseFloat(monthlyPrincipal) || 0,
+      monthlyInterestPaid: monthlyInterestPaid === "" ? undefined : parseFloat(monthlyInterestPaid) || 0,
+      entries: entriesData ?? [],
+    });
+  }, [loan, details, entriesData, months, monthlyPrincipal, monthlyInterestPaid]);
+
+  const projectedRows = schedule.filter((row) => row.isProjected);
+  const totalProjectedInterest = projectedRows.reduce((sum, row) => sum + row.interestDue - row.pendingInterest, 0);
+  const finalBalance = projectedRows.length
+    ? projectedRows[projectedRows.length - 1].closingBalance
+    : loan?.balanceAmount ?? 0;
+
+  const isLoading = isLoadingLoan || isLoadingDetails || isLoadingEntries;
+
+  const handleExport = () => {
+    downloadCsv(
+      `loan-${loanId}-schedule.csv`,
+      [
+        "Month",
+        "Due Date",
+        "Status",
+        "Opening Balance",
+        "Interest Due",
+        "Principal Reduction",
+        "Closing Balance",
+        "Pending Interest",
+        "Received Date",
+        "Received Interest",
+        "Received Amount",
+      ],
+      schedule.map((row) => [
+        row.month,
+        format(row.dueDate, "dd/MM/yyyy"),
+        row.isProjected ? "Projected" : "Posted",
+        row.openingBalance,
+        row.interestDue,
+        row.principalReduction,
+        row.closingBalance,
+        row.pendingInterest,
+        row.actualReceivedDate ? format(parseISO(row.actualReceivedDate), "dd/MM/yyyy") : "",
+        row.actualReceivedInterest,
+        row.actualReceivedAmount,
+      ])
+    );
+  };
+
+  const handlePrint = () => {
+    if (printRef.current && !printElement(printRef.current, `Loan #${loanId} Schedule`)) {
+      toast.error("Please allow popups to print the schedule");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Repayment Schedule for Loan #{loanId}
+          </DialogTitle>
+        </DialogHeader>
+
+        {/* Projection inputs */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="scheduleMonths">Months to Project</Label>
+            <Input
+              id="scheduleMonths"
+              type="number"
+              min={1}
+              max={120}
+              value={months}
+              onChange={(e) => setMonths(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="monthlyPrincipal">Principal Repaid / Month</Label>
+            <div className="relative">
+              <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">₹</span>
+              <Input
+                id="monthlyPrincipal"
+                type="number"
+                step="0.01"
+                value={monthlyPrincipal}
+                onChange={(e) => setMonthlyPrincipal(e.target.value)}
+                className="pl-7"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="monthlyInterestPaid">Interest Paid / Month</Label>
+            <div className="relative">
+              <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">₹</span>
+              <Input
+                id="monthlyInterestPaid"
+                type="number"
+                step="0.01"
+                placeholder="Full interest"
+                value={monthlyInterestPaid}
+                onChange={(e) => setMonthlyInterestPaid(e.target.value)}
+                className="pl-7"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isLoading || schedule.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handlePrint} disabled={isLoading || schedule.length === 0}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <LoaderCircle className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div ref={printRef} className="space-y-4">
+            {/* Loan summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-gray-50 dark:bg-muted/40 p-4 rounded-lg border text-sm">
+              <div>
+                <div className="text-muted-foreground">Party</div>
+                <div className="font-semibold">
+                  {loan?.party?.partyName ?? "-"}
+                  {loan?.party?.accountNumber && (
+                    <span className="text-muted-foreground font-normal"> ({loan.party.accountNumber})</span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {loan?.interest}% · {INTEREST_MODEL_LABELS[loan?.interestModel || DEFAULT_INTEREST_MODEL]}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Current Balance</div>
+                <div className="font-semibold tabular-nums">{formatCurrency(loan?.balanceAmount ?? 0)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Projected Interest Collected</div>
+                <div className="font-semibold tabular-nums">{formatCurrency(totalProjectedInterest)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Balance After {projectedRows.length} Months</div>
+                <div className="font-semibold tabular-nums">{formatCurrency(finalBalance)}</div>
+              </div>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Opening Balance</TableHead>
+                    <TableHead className="text-right">Interest Due</TableHead>
+                    <TableHead className="text-right">Principal Reduction</TableHead>
+                    <TableHead className="text-right">Closing Balance</TableHead>
+                    <TableHead className="text-right">Received Interest</TableHead>
+                    <TableHead className="text-right">Received Amount</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center py-6">
+                        Nothing to project. The loan has no outstanding balance.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    schedule.map((row) => (
+                      <TableRow key={row.entryId != null ? `entry-${row.entryId}` : `projected-${row.monthKey}`} className={row.isProjected ? "" : "bg-muted/30"}>
+                        <TableCell>
+                          <div className="font-medium">{row.month}</div>
+                          <div className="text-xs text-muted-foreground">{format(row.dueDate, "dd/MM/yyyy")}</div>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(row.openingBalance)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(row.interestDue)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(row.principalReduction)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(row.closingBalance)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {row.actualReceivedInterest !== null ? formatCurrency(row.actualReceivedInterest) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {row.actualReceivedAmount !== null ? formatCurrency(row.actualReceivedAmount) : "-"}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {row.isProjected ? (
+                            <Badge variant="outline">Projected</Badge>
+                          ) : (
+                            <Badge variant="secondary">Posted</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RepaymentScheduleDialog;
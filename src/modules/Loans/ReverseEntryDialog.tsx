@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LoaderCircle, Undo2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { post, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { toast } from "sonner";
+import { EditableEntry } from "./EditEntryDialog";
+
+interface ReverseEntryDialogProps {
+  entry: EditableEntry;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ReverseEntryDialog: React.FC<ReverseEntryDialogProps> = ({
+  entry,
+  isOpen,
+  onClose,
+}) => {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  // The server records a contra entry with negated amounts and marks the original as reversed
+  const reverseEntryMutation = useMutation({
+    mutationFn: (payload: { reason: string }) => post(`/entries/${entry.id}/reverse`, payload),
+    onSuccess: () => {
+      toast.success("Entry reversed successfully");
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["entries"] });
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+      queryClient.invalidateQueries({ queryKey: ["loan"] });
+      onClose();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to reverse entry");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      toast.error("Please enter a reason for the reversal");
+      return;
+    }
+    reverseEntryMutation.mutate({ reason: reason.trim() });
+  };
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-600">
+            <Undo2 className="h-5 w-5" />
+            Reverse Entry
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            A contra entry will be posted against entry #{entry.id} of loan #{entry.loanId} for{" "}
+            <strong>{formatCurrency(entry.receivedInterest ?? 0)}</strong> interest and{" "}
+            <strong>{formatCurrency(entry.receivedAmount ?? 0)}</strong> principal. The loan
+            balance and pending interest will be restored.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="reversalReason">
+              Reason <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="reversalReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Cheque bounced"
+              required
+              autoFocus
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={reverseEntryMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={reverseEntryMutation.isPending || !reason.trim()}
+            >
+              {reverseEntryMutation.isPending && (
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Reverse Entry
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReverseEntryDialog;
@@ -0,0 +1,50 @@
+export interface EntryAmounts {
+  receivedInterest: number;
+  receivedAmount: number;
+  /** Interest still payable on the loan (totalPendingInterest) */
+  totalPendingInterest: number;
+  /** Outstanding principal on the loan */
+  balanceAmount: number;
+}
+
+export interface AdjustedEntryAmounts {
+  receivedInterest: number;
+  receivedAmount: number;
+  /** Interest above the pending interest, moved to the principal */
+  excessInterest: number;
+  /** Informational message when interest was capped */
+  notice?: string;
+  /** Blocking message when the entry cannot be posted */
+  error?: string;
+}
+
+/**
+ * Applies the same rules as CreateEntryForm: received interest is capped at
+ * the pending interest and any excess is added to the received amount, which
+ * in turn may not exceed the outstanding balance.
+ */
+export const applyInterestCap = ({
+  receivedInterest,
+  receivedAmount,
+  totalPendingInterest,
+  balanceAmount,
+}: EntryAmounts): AdjustedEntryAmounts => {
+  const excessInterest = receivedInterest > totalPendingInterest ? receivedInterest - totalPendingInterest : 0;
+  const adjustedInterest = receivedInterest - excessInterest;
+  const adjustedAmount = receivedAmount + excessInterest;
+  const result: AdjustedEntryAmounts = {
+    receivedInterest: adjustedInterest,
+    receivedAmount: adjustedAmount,
+    excessInterest,
+  };
+
+  if (excessInterest > 0) {
+    result.notice = `Interest will be capped at ₹${totalPendingInterest.toFixed(2)}. Excess ₹${excessInterest.toFixed(2)} will be added to received amount.`;
+  }
+  if (receivedInterest < 0 || receivedAmount < 0) {
+    result.error = "Amounts cannot be negative.";
+  } else if (adjustedAmount > balanceAmount) {
+    result.error = `Total received amount (₹${adjustedAmount.toFixed(2)}) cannot exceed balance amount (₹${balanceAmount.toFixed(2)}).`;
+  }
+  return result;
+};
@@ -0,0 +1,126 @@
+import {
+  DEFAULT_INTEREST_MODEL,
+  INTEREST_MODELS,
+  InterestModel,
+} from "@/config/interestModels";
+
+export interface InterestTerms {
+  interestModel?: InterestModel | null;
+  /** Original principal (Loan.loanAmount) */
+  loanAmount: number;
+  /** Outstanding principal (Loan.balanceAmount) */
+  balanceAmount: number;
+  /** Unpaid interest carried forward (Loan.balanceInterest) */
+  balanceInterest: number;
+  /** Monthly interest rate in percent */
+  interest: number;
+  /** Number of instalments, only used by reducing-balance EMI */
+  tenureMonths?: number | null;
+}
+
+export interface InterestBreakdownLine {
+  label: string;
+  amount: number;
+}
+
+export interface MonthlyInterest {
+  model: InterestModel;
+  /** Interest charged for the month, excluding carried interest */
+  interestDue: number;
+  /** Principal scheduled for the month (EMI loans only) */
+  principalDue: number;
+  /** Full instalment for EMI loans, otherwise interestDue */
+  instalment: number;
+  /** interestDue plus carried balanceInterest */
+  totalPendingInterest: number;
+  /** Interest lines only; they add up to totalPendingInterest */
+  breakdown: InterestBreakdownLine[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Equated monthly instalment for a principal, monthly rate (percent) and tenure */
+export const calculateEmi = (principal: number, interest: number, tenureMonths: number): number => {
+  if (principal <= 0 || tenureMonths <= 0) return 0;
+  const rate = interest / 100;
+  if (rate === 0) return round2(principal / tenureMonths);
+  const factor = Math.pow(1 + rate, tenureMonths);
+  return round2((principal * rate * factor) / (factor - 1));
+};
+
+/**
+ * Works out one month's interest for a loan according to its interest model.
+ * The breakdown lines are what EntryDialog shows in its "Interest
+ * Calculation" popup.
+ */
+export const calculateMonthlyInterest = (terms: InterestTerms): MonthlyInterest => {
+  const model = terms.interestModel || DEFAULT_INTEREST_MODEL;
+  const rate = terms.interest / 100;
+  const breakdown: InterestBreakdownLine[] = [];
+  let interestDue = 0;
+  let principalDue = 0;
+  let instalment = 0;
+
+  switch (model) {
+    case INTEREST_MODELS.FLAT_ON_PRINCIPAL:
+      interestDue = round2(terms.loanAmount * rate);
+      breakdown.push({ label: "Interest on Original Principal", amount: interestDue });
+      break;
+    case INTEREST_MODELS.REDUCING_EMI: {
+      interestDue = round2(terms.balanceAmount * rate);
+      const emi = calculateEmi(terms.loanAmount, terms.interest, terms.tenureMonths || 0);
+      principalDue = round2(Math.min(Math.max(emi - interestDue, 0), terms.balanceAmount));
+      instalment = round2(interestDue + principalDue);
+      breakdown.push({ label: "Interest on Reducing Balance", amount: interestDue });
+      break;
+    }
+    case INTEREST_MODELS.COMPOUNDING: {
+      const onBalance = round2(terms.balanceAmount * rate);
+      const onPending = round2(terms.balanceInterest * rate);
+      interestDue = round2(onBalance + onPending);
+      breakdown.push({ label: "Interest on Balance", amount: onBalance });
+      breakdown.push({ label: "Interest on Unpaid Interest", amount: onPending });
+      break;
+    }
+    default:
+      interestDue = round2(terms.balanceAmount * rate);
+      breakdown.push({ label: "Interest on Balance", amount: interestDue });
+      break;
+  }
+
+  breakdown.push({ label: "Current Balance Interest", amount: terms.balanceInterest });
+
+  return {
+    model,
+    interestDue,
+    principalDue,
+    instalment: instalment || interestDue,
+    totalPendingInterest: round2(interestDue + terms.balanceInterest),
+    breakdown,
+  };
+};
+
+/** Loan details as the entry forms hold them, straight from the input fields */
+export interface InterestFormValues {
+  interestModel: string;
+  loanAmount: string;
+  balanceAmount: string;
+  balanceInterest: string;
+  interestPercentage: string;
+  tenureMonths: string;
+}
+
+/**
+ * Monthly interest for the loan loaded into an entry form. The popup lines,
+ * the total shown under them and the interest cap all read from this, so they
+ * always agree.
+ */
+export const calculateFormInterest = (values: InterestFormValues): MonthlyInterest =>
+  calculateMonthlyInterest({
+    interestModel: (values.interestModel || DEFAULT_INTEREST_MODEL) as InterestModel,
+    loanAmount: parseFloat(values.loanAmount || "0"),
+    balanceAmount: parseFloat(values.balanceAmount || "0"),
+    balanceInterest: parseFloat(values.balanceInterest || "0"),
+    interest: parseFloat(values.interestPercentage || "0"),
+    tenureMonths: values.tenureMonths ? Number(values.tenureMonths) : null,
+  });
@@ -0,0 +1,19 @@
+import { get } from "@/services/apiService";
+
+const PAGE_SIZE = 500;
+
+/** Every entry of a loan, oldest first, fetched page by page so none are cut off */
+export const fetchAllLoanEntries = async <T>(loanId: number): Promise<T[]> => {
+  const entries: T[] = [];
+  for (let page = 1; ; page += 1) {
+    const data: { entries?: T[]; totalPages?: number } = await get("/entries", {
+      loanId,
+      page,
+      limit: PAGE_SIZE,
+      sortBy: "entryDate",
+      sortOrder: "asc",
+    });
+    entries.push(...(data.entries ?? []));
+    if (!data.entries?.length || page >= (data.totalPages ?? 1)) return entries;
+  }
+};
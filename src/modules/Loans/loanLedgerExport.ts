@@ -0,0 +1,105 @@
+import { addMonths, format, parseISO, startOfMonth } from "date-fns";
+import { CsvCell } from "@/lib/export";
+
+export interface LedgerLoan {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  balanceAmount: number;
+  interest: number;
+  balanceInterest: number;
+  partyName: string;
+  isClosed?: boolean;
+  closedAt?: string | null;
+  party?: {
+    partyName: string;
+    accountNumber: string;
+  };
+}
+
+export interface LedgerMonthlyData {
+  receivedAmount: number;
+  receivedInterest: number;
+  totalPendingInterest?: number;
+  balanceInterest?: number;
+}
+
+export interface LedgerSummaryItem {
+  loanId: number;
+  monthlyData?: Record<string, LedgerMonthlyData>;
+}
+
+/** Month keys as used by monthlyData ("MMMM yyyy") from start to end inclusive */
+export const getMonthKeys = (start: Date, end: Date): string[] => {
+  const months: string[] = [];
+  for (let month = startOfMonth(start); month <= end; month = addMonths(month, 1)) {
+    months.push(format(month, "MMMM yyyy"));
+  }
+  return months;
+};
+
+/**
+ * Flattens loans and their monthlyData into the same grid the LoanList shows,
+ * with three columns per month and row totals for the exported months.
+ */
+export const buildLoanLedger = (
+  loans: LedgerLoan[],
+  summary: LedgerSummaryItem[],
+  months: string[]
+): { headers: string[]; rows: CsvCell[][] } => {
+  const summaryMap = new Map(summary.map((item) => [item.loanId, item]));
+
+  const headers = [
+    "Account Number",
+    "Party",
+    "Loan Date",
+    "Loan Amount",
+    "Interest %",
+    "Status",
+    ...months.flatMap((month) => [
+      `${month} Received Amount`,
+      `${month} Received Interest`,
+      `${month} Pending Interest`,
+    ]),
+    "Total Received Amount",
+    "Total Received Interest",
+    "Remaining Interest",
+    "Balance Pending",
+  ];
+
+  const rows = loans.map((loan): CsvCell[] => {
+    const monthlyData = summaryMap.get(loan.id)?.monthlyData ?? {};
+    let totalReceivedAmount = 0;
+    let totalReceivedInterest = 0;
+
+    const monthCells = months.flatMap((month): CsvCell[] => {
+      const monthData = monthlyData[month];
+      if (!monthData) return ["", "", ""];
+      totalReceivedAmount += monthData.receivedAmount || 0;
+      totalReceivedInterest += monthData.receivedInterest || 0;
+      return [
+        monthData.receivedAmount || 0,
+        monthData.receivedInterest || 0,
+        monthData.totalPendingInterest ?? monthData.balanceInterest ?? 0,
+      ];
+    });
+
+    return [
+      loan.party?.accountNumber ?? "",
+      loan.party?.partyName || loan.partyName,
+      format(parseISO(loan.loanDate), "dd/MM/yyyy"),
+      loan.loanAmount,
+      loan.interest,
+      loan.isClosed
+        ? `Closed${loan.closedAt ? ` (${format(parseISO(loan.closedAt), "dd/MM/yyyy")})` : ""}`
+        : "Open",
+      ...monthCells,
+      totalReceivedAmount,
+      totalReceivedInterest,
+      loan.balanceInterest,
+      loan.balanceAmount,
+    ];
+  });
+
+  return { headers, rows };
+};
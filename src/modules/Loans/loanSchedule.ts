@@ -0,0 +1,163 @@
+import { addMonths, format, parseISO } from "date-fns";
+import { InterestModel } from "@/config/interestModels";
+import { calculateMonthlyInterest } from "./interestCalculation";
+
+export interface ScheduleEntry {
+  id: number;
+  entryDate: string;
+  balanceAmount: number;
+  interestAmount: number;
+  receivedDate?: string | null;
+  receivedAmount?: number | null;
+  receivedInterest?: number | null;
+  /** Contra entry posted to reverse another entry */
+  isReversal?: boolean;
+  reversedEntryId?: number | null;
+}
+
+export interface ScheduleInput {
+  interestModel?: InterestModel | null;
+  /** Original principal (Loan.loanAmount) */
+  loanAmount: number;
+  /** Number of instalments for reducing-balance EMI loans */
+  tenureMonths?: number | null;
+  /** Current outstanding principal (Loan.balanceAmount) */
+  balanceAmount: number;
+  /** Interest carried forward and still unpaid (Loan.balanceInterest) */
+  balanceInterest: number;
+  /** Monthly interest rate in percent */
+  interest: number;
+  /** First month to project, usually nextEntryDate from /entries/loan/:id/details */
+  startDate: Date;
+  /** Number of months to project */
+  months: number;
+  /** Expected principal repaid each month; EMI loans repay at least the EMI principal */
+  monthlyPrincipal: number;
+  /** Expected interest paid each month; defaults to the full interest due */
+  monthlyInterestPaid?: number;
+  /** Already posted entries for the loan, used to fill the actual columns */
+  entries?: ScheduleEntry[];
+}
+
+export interface ScheduleRow {
+  /** Posted entry behind the row; null for projected months */
+  entryId: number | null;
+  monthKey: string;
+  month: string;
+  dueDate: Date;
+  openingBalance: number;
+  /** Interest payable for the month, including what earlier months left unpaid */
+  interestDue: number;
+  principalReduction: number;
+  closingBalance: number;
+  /** Interest left unpaid after this month, carried to the next one */
+  pendingInterest: number;
+  isProjected: boolean;
+  actualReceivedInterest: number | null;
+  actualReceivedAmount: number | null;
+  actualReceivedDate: string | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const monthKeyOf = (date: Date) => format(date, "yyyy-MM");
+
+/**
+ * Builds a month-by-month repayment schedule. Months that already have a
+ * posted entry are taken from that entry; every later month is projected
+ * from the current balance using the loan's own interest model.
+ */
+export const buildRepaymentSchedule = ({
+  interestModel,
+  loanAmount,
+  tenureMonths,
+  balanceAmount,
+  balanceInterest,
+  interest,
+  startDate,
+  months,
+  monthlyPrincipal,
+  monthlyInterestPaid,
+  entries = [],
+}: ScheduleInput): ScheduleRow[] => {
+  const rows: ScheduleRow[] = [];
+
+  // Posted entries, oldest first, one row per entry; a reversed entry and its contra cancel out
+  const reversedIds = new Set(
+    entries.filter((entry) => entry.isReversal && entry.reversedEntryId != null).map((entry) => entry.reversedEntryId)
+  );
+  const posted = entries
+    .filter((entry) => !entry.isReversal && !reversedIds.has(entry.id))
+    .sort((a, b) => parseISO(a.entryDate).getTime() - parseISO(b.entryDate).getTime());
+
+  // Interest left unpaid by one entry is due again at the next, as in the projected months
+  let postedCarriedInterest = 0;
+  posted.forEach((entry) => {
+    const dueDate = parseISO(entry.entryDate);
+    const receivedAmount = entry.receivedAmount ?? 0;
+    const receivedInterest = entry.receivedInterest ?? 0;
+    const interestDue = round2(postedCarriedInterest + entry.interestAmount);
+    postedCarriedInterest = round2(Math.max(interestDue - receivedInterest, 0));
+    rows.push({
+      entryId: entry.id,
+      monthKey: monthKeyOf(dueDate),
+      month: format(dueDate, "MMMM yyyy"),
+      dueDate,
+      openingBalance: entry.balanceAmount,
+      interestDue,
+      principalReduction: receivedAmount,
+      closingBalance: round2(Math.max(entry.balanceAmount - receivedAmount, 0)),
+      pendingInterest: postedCarriedInterest,
+      isProjected: false,
+      actualReceivedInterest: entry.receivedInterest ?? null,
+      actualReceivedAmount: entry.receivedAmount ?? null,
+      actualReceivedDate: entry.receivedDate ?? null,
+    });
+  });
+
+  const postedKeys = new Set(rows.map((row) => row.monthKey));
+  let balance = balanceAmount;
+  let carriedInterest = balanceInterest;
+
+  for (let i = 0; i < months && balance > 0; i++) {
+    const dueDate = addMonths(startDate, i);
+    const monthKey = monthKeyOf(dueDate);
+    if (postedKeys.has(monthKey)) continue;
+
+    const monthly = calculateMonthlyInterest({
+      interestModel,
+      loanAmount,
+      balanceAmount: balance,
+      balanceInterest: carriedInterest,
+      interest,
+      tenureMonths,
+    });
+    const interestDue = monthly.totalPendingInterest;
+    const interestPaid = Math.min(monthlyInterestPaid ?? interestDue, interestDue);
+    const principalReduction = round2(
+      Math.min(Math.max(monthlyPrincipal, monthly.principalDue), balance)
+    );
+    const closingBalance = round2(balance - principalReduction);
+
+    rows.push({
+      entryId: null,
+      monthKey,
+      month: format(dueDate, "MMMM yyyy"),
+      dueDate,
+      openingBalance: round2(balance),
+      interestDue,
+      principalReduction,
+      closingBalance,
+      pendingInterest: round2(interestDue - interestPaid),
+      isProjected: true,
+      actualReceivedInterest: null,
+      actualReceivedAmount: null,
+      actualReceivedDate: null,
+    });
+
+    balance = closingBalance;
+    carriedInterest = round2(interestDue - interestPaid);
+  }
+
+  return rows;
+};
@@ -0,0 +1,265 @@
+import { SpreadsheetData, excelSerialToIsoDate } from "@/lib/spreadsheetImport";
+import { calculateMonthlyInterest } from "./interestCalculation";
+import { applyInterestCap } from "./entryValidation";
+
+export const LOAN_SHEET_COLUMNS = {
+  loanReference: "Loan Reference",
+  partyReference: "Party Reference",
+  loanDate: "Loan Date",
+  loanAmount: "Loan Amount",
+  interest: "Interest",
+} as const;
+
+export const ENTRY_SHEET_COLUMNS = {
+  loanReference: "Loan Reference",
+  entryDate: "Entry Date",
+  receivedDate: "Received Date",
+  receivedAmount: "Received Amount",
+  receivedInterest: "Received Interest",
+} as const;
+
+export interface MigrationEntry {
+  rowNumber: number;
+  loanReference: string;
+  entryDate: string;
+  receivedDate: string | null;
+  receivedAmount: number;
+  receivedInterest: number;
+  /** Filled in by the replay */
+  interestAmount: number;
+  balanceAmount: number;
+  balanceInterest: number;
+  errors: string[];
+}
+
+export interface MigrationLoan {
+  rowNumber: number;
+  loanReference: string;
+  /** Account number of an existing party */
+  partyReference: string;
+  partyId: number | null;
+  partyName: string | null;
+  loanDate: string;
+  loanAmount: number;
+  interest: number;
+  /** Balances after replaying every entry */
+  balanceAmount: number;
+  balanceInterest: number;
+  entries: MigrationEntry[];
+  errors: string[];
+}
+
+export interface MigrationParty {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+}
+
+export interface MigrationDryRun {
+  loans: MigrationLoan[];
+  /** Entries whose loan reference is not in the loan sheet */
+  orphanEntries: MigrationEntry[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Column index per key, or the labels of the missing columns
+const locateColumns = <T extends Record<string, string>>(sheet: SpreadsheetData, columns: T) => {
+  const headers = sheet.headers.map(normalizeHeader);
+  const indexes = {} as Record<keyof T, number>;
+  const missing: string[] = [];
+  (Object.keys(columns) as (keyof T)[]).forEach((key) => {
+    const index = headers.findIndex(
+      (header) => header === normalizeHeader(columns[key]) || header === normalizeHeader(String(key))
+    );
+    if (index === -1) missing.push(columns[key]);
+    indexes[key] = index;
+  });
+  return { indexes, missing };
+};
+
+/** Accepts yyyy-MM-dd, dd/MM/yyyy, dd-MM-yyyy or an Excel date serial; returns yyyy-MM-dd or null */
+export const parseSheetDate = (value: string): string | null => {
+  const text = value.trim();
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text) && Number(text) > 20000) return excelSerialToIsoDate(Number(text));
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+  match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+  return null;
+};
+
+const parseSheetAmount = (value: string): number | null => {
+  const text = value.replace(/[₹,\s]/g, "");
+  if (!text) return 0;
+  const amount = Number(text);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const parseLoans = (sheet: SpreadsheetData, partiesByAccount: Map<string, MigrationParty>): MigrationLoan[] => {
+  const { indexes } = locateColumns(sheet, LOAN_SHEET_COLUMNS);
+  const seenReferences = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+    const loanReference = row[indexes.loanReference] ?? "";
+    const partyReference = row[indexes.partyReference] ?? "";
+    const loanDate = parseSheetDate(row[indexes.loanDate] ?? "");
+    const loanAmount = parseSheetAmount(row[indexes.loanAmount] ?? "");
+    const interest = parseSheetAmount(row[indexes.interest] ?? "");
+    const party = partiesByAccount.get(partyReference.toLowerCase());
+
+    if (!loanReference) errors.push("Loan reference is required");
+    else if (seenReferences.has(loanReference)) errors.push(`Loan reference ${loanReference} is repeated`);
+    seenReferences.add(loanReference);
+    if (!party) errors.push(`No party with account number "${partyReference}"`);
+    if (!loanDate) errors.push("Loan date is missing or invalid");
+    if (loanAmount === null || loanAmount <= 0) errors.push("Loan amount must be a positive number");
+    if (interest === null || interest < 0) errors.push("Interest must be zero or more");
+
+    return {
+      rowNumber: index + 2,
+      loanReference,
+      partyReference,
+      partyId: party?.id ?? null,
+      partyName: party?.partyName ?? null,
+      loanDate: loanDate ?? "",
+      loanAmount: loanAmount ?? 0,
+      interest: interest ?? 0,
+      balanceAmount: loanAmount ?? 0,
+      balanceInterest: 0,
+      entries: [],
+      errors,
+    };
+  });
+};
+
+const parseEntries = (sheet: SpreadsheetData): MigrationEntry[] => {
+  const { indexes } = locateColumns(sheet, ENTRY_SHEET_COLUMNS);
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+    const entryDate = parseSheetDate(row[indexes.entryDate] ?? "");
+    const receivedDateText = row[indexes.receivedDate] ?? "";
+    const receivedDate = parseSheetDate(receivedDateText);
+    const receivedAmount = parseSheetAmount(row[indexes.receivedAmount] ?? "");
+    const receivedInterest = parseSheetAmount(row[indexes.receivedInterest] ?? "");
+
+    if (!entryDate) errors.push("Entry date is missing or invalid");
+    if (receivedDateText && !receivedDate) errors.push("Received date is invalid");
+    if (receivedAmount === null || receivedAmount < 0) errors.push("Received amount must be zero or more");
+    if (receivedInterest === null || receivedInterest < 0) errors.push("Received interest must be zero or more");
+    if (!receivedDate && ((receivedAmount ?? 0) > 0 || (receivedInterest ?? 0) > 0)) {
+      errors.push("Received date is required when an amount was received");
+    }
+
+    return {
+      rowNumber: index + 2,
+      loanReference: row[indexes.loanReference] ?? "",
+      entryDate: entryDate ?? "",
+      receivedDate,
+      receivedAmount: receivedAmount ?? 0,
+      receivedInterest: receivedInterest ?? 0,
+      interestAmount: 0,
+      balanceAmount: 0,
+      balanceInterest: 0,
+      errors,
+    };
+  });
+};
+
+/**
+ * Replays a loan's entries in date order with the same interest and cap rules as
+ * CreateEntryForm, recording the balances after each entry. Legacy loans are
+ * treated as simple interest on the outstanding balance. Imported amounts are
+ * never rewritten: an entry the cap would adjust is rejected instead.
+ */
+const replayLoan = (loan: MigrationLoan): MigrationLoan => {
+  let balanceAmount = loan.loanAmount;
+  let balanceInterest = 0;
+  const errors = [...loan.errors];
+
+  const entries = [...loan.entries]
+    .sort((a, b) => a.entryDate.localeCompare(b.entryDate) || a.rowNumber - b.rowNumber)
+    .map((entry) => {
+      const replayed = { ...entry, errors: [...entry.errors] };
+      if (loan.loanDate && entry.entryDate && entry.entryDate < loan.loanDate) {
+        replayed.errors.push("Entry date is before the loan date");
+      }
+
+      const monthly = calculateMonthlyInterest({
+        loanAmount: loan.loanAmount,
+        balanceAmount,
+        balanceInterest,
+        interest: loan.interest,
+      });
+      const adjusted = applyInterestCap({
+        receivedInterest: entry.receivedInterest,
+        receivedAmount: entry.receivedAmount,
+        totalPendingInterest: monthly.totalPendingInterest,
+        balanceAmount,
+      });
+      if (adjusted.excessInterest > 0) {
+        replayed.errors.push(
+          `Received interest ₹${entry.receivedInterest.toFixed(2)} is more than the ₹${monthly.totalPendingInterest.toFixed(2)} pending; correct the source figures`
+        );
+      } else if (adjusted.error) {
+        replayed.errors.push(adjusted.error);
+      }
+
+      if (replayed.errors.length === 0) {
+        balanceAmount = round2(balanceAmount - entry.receivedAmount);
+        balanceInterest = round2(monthly.totalPendingInterest - entry.receivedInterest);
+      }
+      replayed.interestAmount = monthly.interestDue;
+      replayed.balanceAmount = balanceAmount;
+      replayed.balanceInterest = balanceInterest;
+      return replayed;
+    });
+
+  const failedEntries = entries.filter((entry) => entry.errors.length > 0).length;
+  if (failedEntries > 0) errors.push(`${failedEntries} entr${failedEntries === 1 ? "y has" : "ies have"} errors`);
+
+  return { ...loan, entries, balanceAmount, balanceInterest, errors };
+};
+
+export const getMissingColumns = (loanSheet: SpreadsheetData, entrySheet: SpreadsheetData | null): string[] => [
+  ...locateColumns(loanSheet, LOAN_SHEET_COLUMNS).missing.map((column) => `Loan sheet: ${column}`),
+  ...(entrySheet
+    ? locateColumns(entrySheet, ENTRY_SHEET_COLUMNS).missing.map((column) => `Entries sheet: ${column}`)
+    : []),
+];
+
+export const getPartyReferences = (loanSheet: SpreadsheetData): string[] => {
+  const { indexes } = locateColumns(loanSheet, LOAN_SHEET_COLUMNS);
+  return Array.from(new Set(loanSheet.rows.map((row) => row[indexes.partyReference]).filter(Boolean)));
+};
+
+/** Links entries to loans and replays every loan; nothing is sent to the server */
+export const buildMigrationDryRun = (
+  loanSheet: SpreadsheetData,
+  entrySheet: SpreadsheetData | null,
+  parties: MigrationParty[]
+): MigrationDryRun => {
+  const partiesByAccount = new Map(parties.map((party) => [party.accountNumber.toLowerCase(), party]));
+  const loans = parseLoans(loanSheet, partiesByAccount);
+  const entries = entrySheet ? parseEntries(entrySheet) : [];
+  const loansByReference = new Map(loans.map((loan) => [loan.loanReference, loan]));
+  const orphanEntries: MigrationEntry[] = [];
+
+  entries.forEach((entry) => {
+    const loan = loansByReference.get(entry.loanReference);
+    if (loan) {
+      loan.entries.push(entry);
+    } else {
+      orphanEntries.push({ ...entry, errors: [...entry.errors, `No loan with reference "${entry.loanReference}"`] });
+    }
+  });
+
+  return {
+    loans: loans.map(replayLoan),
+    orphanEntries,
+  };
+};
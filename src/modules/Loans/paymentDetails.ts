@@ -0,0 +1,68 @@
+import { DEFAULT_PAYMENT_MODE, PAYMENT_MODES, PAYMENT_MODE_LABELS, PaymentMode } from "@/config/paymentModes";
+
+export interface PaymentDetails {
+  paymentMode: PaymentMode;
+  upiTransactionId: string;
+  chequeNumber: string;
+  chequeBank: string;
+  bankUtr: string;
+}
+
+export const EMPTY_PAYMENT_DETAILS: PaymentDetails = {
+  paymentMode: DEFAULT_PAYMENT_MODE,
+  upiTransactionId: "",
+  chequeNumber: "",
+  chequeBank: "",
+  bankUtr: "",
+};
+
+/** Returns the first missing reference for the selected mode, or null when complete */
+export const validatePaymentDetails = (details: PaymentDetails): string | null => {
+  switch (details.paymentMode) {
+    case PAYMENT_MODES.UPI:
+      return details.upiTransactionId.trim() ? null : "UPI transaction ID is required";
+    case PAYMENT_MODES.CHEQUE:
+      if (!details.chequeNumber.trim()) return "Cheque number is required";
+      return details.chequeBank.trim() ? null : "Cheque bank is required";
+    case PAYMENT_MODES.BANK_TRANSFER:
+      return details.bankUtr.trim() ? null : "Bank UTR is required";
+    default:
+      return null;
+  }
+};
+
+// Only the reference fields that belong to the selected mode are sent
+export const toPaymentPayload = (details: PaymentDetails) => ({
+  paymentMode: details.paymentMode,
+  upiTransactionId: details.paymentMode === PAYMENT_MODES.UPI ? details.upiTransactionId.trim() : null,
+  chequeNumber: details.paymentMode === PAYMENT_MODES.CHEQUE ? details.chequeNumber.trim() : null,
+  chequeBank: details.paymentMode === PAYMENT_MODES.CHEQUE ? details.chequeBank.trim() : null,
+  bankUtr: details.paymentMode === PAYMENT_MODES.BANK_TRANSFER ? details.bankUtr.trim() : null,
+});
+
+export interface EntryPaymentInfo {
+  paymentMode?: PaymentMode | null;
+  upiTransactionId?: string | null;
+  chequeNumber?: string | null;
+  chequeBank?: string | null;
+  bankUtr?: string | null;
+}
+
+export const getPaymentModeLabel = (paymentMode?: PaymentMode | null) =>
+  PAYMENT_MODE_LABELS[paymentMode || DEFAULT_PAYMENT_MODE];
+
+/** Reference shown next to the mode in tables, e.g. "Chq 123456 (SBI)" */
+export const getPaymentReference = (entry: EntryPaymentInfo): string => {
+  switch (entry.paymentMode) {
+    case PAYMENT_MODES.UPI:
+      return entry.upiTransactionId ?? "";
+    case PAYMENT_MODES.CHEQUE:
+      return [entry.chequeNumber && `Chq ${entry.chequeNumber}`, entry.chequeBank && `(${entry.chequeBank})`]
+        .filter(Boolean)
+        .join(" ");
+    case PAYMENT_MODES.BANK_TRANSFER:
+      return entry.bankUtr ? `UTR ${entry.bankUtr}` : "";
+    default:
+      return "";
+  }
+};
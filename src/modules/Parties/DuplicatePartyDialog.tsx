@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle } from "lucide-react";
+import { formatCurrency } from "@/lib/formatter";
+import { DUPLICATE_MATCH_REASON_LABELS, PartyDuplicateCandidate } from "./partyDuplicates";
+
+interface DuplicatePartyDialogProps {
+  isOpen: boolean;
+  matches: PartyDuplicateCandidate[];
+  onClose: () => void;
+  /** Omitted when picking another party makes no sense, e.g. while editing */
+  onUseExisting?: (party: PartyDuplicateCandidate) => void;
+  onConfirmNew: (reason: string) => void;
+  confirmLabel?: string;
+}
+
+const DuplicatePartyDialog: React.FC<DuplicatePartyDialogProps> = ({
+  isOpen,
+  matches,
+  onClose,
+  onUseExisting,
+  onConfirmNew,
+  confirmLabel = "Save as new party",
+}) => {
+  const [reason, setReason] = useState("");
+  const [reasonError, setReasonError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setReason("");
+    setReasonError(null);
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    if (!reason.trim()) {
+      setReasonError("Please explain why this is not the same borrower");
+      return;
+    }
+    onConfirmNew(reason.trim());
+    setReason("");
+    setReasonError(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Possible Duplicate Party
+          </DialogTitle>
+          <DialogDescription>
+            {matches.length === 1 ? "An existing party looks" : `${matches.length} existing parties look`} like the
+            same borrower.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {matches.map((match) => (
+            <div key={match.id} className="rounded-lg border p-3 text-sm space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="font-semibold">{match.partyName}</div>
+                  <div className="text-muted-foreground">
+                    A/c {match.accountNumber} • {[match.mobile1, match.mobile2].filter(Boolean).join(", ")}
+                  </div>
+                  {match.address && <div className="text-muted-foreground">{match.address}</div>}
+                </div>
+                {onUseExisting && (
+                  <Button size="sm" variant="outline" onClick={() => onUseExisting(match)}>
+                    Use this party
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {match.matchReasons.map((matchReason) => (
+                  <Badge key={matchReason} variant="secondary">
+                    {DUPLICATE_MATCH_REASON_LABELS[matchReason]}
+                  </Badge>
+                ))}
+              </div>
+              {match.openLoans.length > 0 ? (
+                <ul className="text-xs space-y-0.5">
+                  {match.openLoans.map((loan) => (
+                    <li key={loan.id}>
+                      Open loan #{loan.id} of {formatCurrency(loan.loanAmount)} from{" "}
+                      {format(new Date(loan.loanDate), "dd/MM/yyyy")} — balance {formatCurrency(loan.balanceAmount)}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-xs text-muted-foreground">No open loans</div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="duplicateReason">Reason for creating a separate party</Label>
+          <Textarea
+            id="duplicateReason"
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value);
+              setReasonError(null);
+            }}
+            placeholder="e.g. Different person sharing the family mobile number"
+          />
+          {reasonError && <span className="text-xs text-destructive">{reasonError}</span>}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm}>{confirmLabel}</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicatePartyDialog;
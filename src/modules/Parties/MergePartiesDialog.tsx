@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { LoaderCircle, Merge } from "lucide-react";
+import { post, ApiError } from "@/services/apiService";
+import {
+  buildMergedValues,
+  getDefaultMergeSelection,
+  MergeableParty,
+  PARTY_MERGE_FIELDS,
+  PartyMergeSelection,
+} from "./partyMerge";
+
+interface MergePartiesDialogProps {
+  isOpen: boolean;
+  parties: MergeableParty[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const MergePartiesDialog: React.FC<MergePartiesDialogProps> = ({ isOpen, parties, onClose, onSuccess }) => {
+  const queryClient = useQueryClient();
+  const [survivorId, setSurvivorId] = useState<number | null>(null);
+  const [selection, setSelection] = useState<PartyMergeSelection | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen && parties.length > 0) {
+      setSurvivorId(parties[0].id);
+      setSelection(getDefaultMergeSelection(parties[0], parties));
+      setReason("");
+    }
+  }, [isOpen, parties]);
+
+  // Loans and entries of the merged parties move to the survivor; the server records the merge in history
+  const mergeMutation = useMutation({
+    mutationFn: (payload: {
+      survivorId: number;
+      mergedPartyIds: number[];
+      values: Omit<MergeableParty, "id">;
+      reason: string;
+    }) => post("/parties/merge", payload),
+    onSuccess: () => {
+      toast.success("Parties merged successfully");
+      queryClient.invalidateQueries({ queryKey: ["parties"] });
+      queryClient.invalidateQueries({ queryKey: ["party"] });
+      queryClient.invalidateQueries({ queryKey: ["loans"] });
+      queryClient.invalidateQueries({ queryKey: ["entries"] });
+      onSuccess();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to merge parties");
+    },
+  });
+
+  const handleSurvivorChange = (value: string) => {
+    const survivor = parties.find((party) => party.id === Number(value));
+    if (!survivor) return;
+    setSurvivorId(survivor.id);
+    setSelection(getDefaultMergeSelection(survivor, parties));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!survivorId || !selection) return;
+    if (!reason.trim()) {
+      toast.error("Please enter a reason for the merge");
+      return;
+    }
+    mergeMutation.mutate({
+      survivorId,
+      mergedPartyIds: parties.filter((party) => party.id !== survivorId).map((party) => party.id),
+      values: buildMergedValues(parties, selection),
+      reason: reason.trim(),
+    });
+  };
+
+  const mergedParties = parties.filter((party) => party.id !== survivorId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Merge className="h-5 w-5" />
+            Merge Parties
+          </DialogTitle>
+          <DialogDescription>
+            All loans and entries are moved to the surviving party. The other parties are removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {selection && (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="grid gap-2">
+              <Label>Surviving party</Label>
+              <RadioGroup value={String(survivorId)} onValueChange={handleSurvivorChange} className="gap-2">
+                {parties.map((party) => (
+                  <div key={party.id} className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(party.id)} id={`survivor-${party.id}`} />
+                    <Label htmlFor={`survivor-${party.id}`} className="font-normal">
+                      {party.partyName} (A/c {party.accountNumber})
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-muted/50">
+                    <th className="p-2 text-left font-medium">Field</th>
+                    {parties.map((party) => (
+                      <th key={party.id} className="p-2 text-left font-medium">
+                        {party.partyName}
+                        {party.id === survivorId && <span className="ml-1 text-xs text-muted-foreground">(survivor)</span>}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {PARTY_MERGE_FIELDS.map(({ key, label }) => (
+                    <tr key={key} className="border-t">
+                      <td className="p-2 text-muted-foreground whitespace-nowrap">{label}</td>
+                      {parties.map((party) => (
+                        <td key={party.id} className="p-2">
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`merge-${key}`}
+                              checked={selection[key] === party.id}
+                              onChange={() => setSelection({ ...selection, [key]: party.id })}
+                            />
+                            <span className={party[key] ? undefined : "text-muted-foreground"}>{party[key] || "—"}</span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="mergeReason">Reason</Label>
+              <Textarea
+                id="mergeReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Same borrower entered twice with different spellings"
+              />
+            </div>
+
+            <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 text-sm">
+              {mergedParties.map((party) => party.partyName).join(", ")} will be merged into{" "}
+              {parties.find((party) => party.id === survivorId)?.partyName}. This cannot be undone from here.
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mergeMutation.isPending}>
+                {mergeMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                Merge {parties.length} Parties
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergePartiesDialog;
@@ -0,0 +1,526 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowLeft, HandCoins, List, LoaderCircle, PlusCircle } from "lucide-react";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get, ApiError } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import CreateLoan from "@/modules/Loans/CreateLoan";
+import EntryDialog from "@/modules/Loans/EntryDialog";
+import AuditHistory from "@/modules/Audit/AuditHistory";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
+import { EntryPaymentInfo, getPaymentModeLabel, getPaymentReference } from "@/modules/Loans/paymentDetails";
+
+interface PartyDetails {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+  address: string;
+  mobile1: string;
+  mobile2: string;
+  reference: string;
+  referenceMobile1: string;
+  referenceMobile2: string;
+  createdAt: string;
+}
+
+interface PartyLoan {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  balanceAmount: number;
+  interest: number;
+  balanceInterest: number;
+  isClosed?: boolean;
+  closedAt?: string | null;
+  deletedAt?: string | null;
+  /** Principal repaid across all entries of the loan */
+  totalReceivedAmount: number;
+  /** Interest received across all entries of the loan */
+  totalReceivedInterest: number;
+}
+
+interface PartyEntry extends EntryPaymentInfo {
+  id: number;
+  loanId: number;
+  entryDate: string;
+  balanceAmount: number;
+  interestAmount: number;
+  receivedDate?: string | null;
+  receivedAmount?: number | null;
+  receivedInterest?: number | null;
+  isReversal?: boolean;
+  reversedAt?: string | null;
+}
+
+interface PartyMergeRecord {
+  id: number;
+  mergedAt: string;
+  reason: string;
+  mergedBy?: { name: string } | null;
+  /** Parties folded into this one, as they were at the time of the merge */
+  mergedParties: { id: number; partyName: string; accountNumber: string }[];
+}
+
+interface PartyEntriesResponse {
+  entries: PartyEntry[];
+  totalPages: number;
+  totalEntries: number;
+}
+
+const formatDate = (value: string) => format(new Date(value), "dd/MM/yyyy");
+
+const getLoanStatus = (loan: PartyLoan) => {
+  if (loan.deletedAt) return <Badge variant="destructive">Deleted</Badge>;
+  if (loan.isClosed) return <Badge variant="secondary">Closed</Badge>;
+  return <Badge variant="outline">Open</Badge>;
+};
+
+const PartyDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useRoleAccess();
+  // Record history comes from the audit trail, which only audit-log viewers may see
+  const canViewHistory = can(MODULES.AUDIT_LOG, PERMISSIONS.VIEW);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [recordsPerPage, setRecordsPerPage] = useState(10);
+  const [isCreateLoanOpen, setIsCreateLoanOpen] = useState(false);
+  const [paymentLoanId, setPaymentLoanId] = useState<number | null>(null);
+  const [isEntryDialogOpen, setIsEntryDialogOpen] = useState(false);
+
+  const {
+    data: party,
+    isLoading: isPartyLoading,
+    isError,
+    error,
+  } = useQuery<PartyDetails>({
+    queryKey: ["party", id],
+    queryFn: () => get(`/parties/${id}`),
+    enabled: !!id,
+  });
+
+  // Includes closed and deleted loans so the full relationship is visible
+  const { data: loansData, isLoading: isLoansLoading } = useQuery<{ loans: PartyLoan[] }>({
+    queryKey: ["loans", "party", id],
+    queryFn: () => get(`/parties/${id}/loans`, { includeDeleted: true }),
+    enabled: !!id,
+  });
+
+  const { data: entriesData, isLoading: isEntriesLoading } = useQuery<PartyEntriesResponse>({
+    queryKey: ["entries", { partyId: id, page: currentPage, limit: recordsPerPage }],
+    queryFn: () =>
+      get("/entries", {
+        partyId: id,
+        page: currentPage,
+        limit: recordsPerPage,
+        sortBy: "entryDate",
+        sortOrder: "desc",
+      }),
+    enabled: !!id,
+  });
+
+  const { data: mergesData } = useQuery<{ merges: PartyMergeRecord[] }>({
+    queryKey: ["party", id, "merges"],
+    queryFn: () => get(`/parties/${id}/merges`),
+    enabled: !!id,
+  });
+
+  const loans = loansData?.loans ?? [];
+  const activeLoans = loans.filter((loan) => !loan.deletedAt);
+  const openLoans = activeLoans.filter((loan) => !loan.isClosed);
+
+  const totals = {
+    borrowed: activeLoans.reduce((sum, loan) => sum + loan.loanAmount, 0),
+    repaid: activeLoans.reduce((sum, loan) => sum + loan.totalReceivedAmount, 0),
+    interestEarned: activeLoans.reduce((sum, loan) => sum + loan.totalReceivedInterest, 0),
+    exposure: openLoans.reduce((sum, loan) => sum + loan.balanceAmount + loan.balanceInterest, 0),
+  };
+
+  const handleRecordPayment = (loanId: number) => {
+    setPaymentLoanId(loanId);
+    setIsEntryDialogOpen(true);
+  };
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage > 0 && (!entriesData || newPage <= entriesData.totalPages)) {
+      setCurrentPage(newPage);
+    }
+  };
+
+  const handleRecordsPerPageChange = (newLimit: number) => {
+    setRecordsPerPage(newLimit);
+    setCurrentPage(1);
+  };
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Party</h2>
+        <p>{(error as ApiError)?.message || "Failed to load party"}</p>
+        <Button asChild className="mt-4">
+          <Link to="/parties">Back to Parties</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (isPartyLoading || !party) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoaderCircle className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const summaryItems = [
+    { label: "Total Borrowed", value: totals.borrowed },
+    { label: "Total Repaid", value: totals.repaid },
+    { label: "Interest Earned", value: totals.interestEarned },
+    { label: "Current Exposure", value: totals.exposure },
+  ];
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+                <Link to="/parties">
+                  <ArrowLeft className="mr-1 h-4 w-4" />
+                  Parties
+                </Link>
+              </Button>
+              <div className="text-xl font-bold">{party.partyName}</div>
+              <CardDescription>A/c {party.accountNumber}</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {can(MODULES.LOANS, PERMISSIONS.CREATE) && (
+                <Button onClick={() => setIsCreateLoanOpen(true)}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  New Loan
+                </Button>
+              )}
+              {can(MODULES.ENTRIES, PERMISSIONS.CREATE) && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" disabled={openLoans.length === 0}>
+                      <HandCoins className="mr-2 h-4 w-4" />
+                      Record Payment
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Select loan</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {openLoans.map((loan) => (
+                      <DropdownMenuItem key={loan.id} onClick={() => handleRecordPayment(loan.id)}>
+                        Loan #{loan.id} • {formatCurrency(loan.balanceAmount)} balance
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div className="rounded-lg border p-4 space-y-1">
+              <div className="font-semibold mb-2">Contact</div>
+              <div>
+                <span className="text-muted-foreground">Mobile: </span>
+                {[party.mobile1, party.mobile2].filter(Boolean).join(", ")}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Address: </span>
+                {party.address || "-"}
+              </div>
+            </div>
+            <div className="rounded-lg border p-4 space-y-1">
+              <div className="font-semibold mb-2">Reference</div>
+              <div>
+                <span className="text-muted-foreground">Name: </span>
+                {party.reference || "-"}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Mobile: </span>
+                {[party.referenceMobile1, party.referenceMobile2].filter(Boolean).join(", ") || "-"}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-gray-50 dark:bg-muted/40 p-4 rounded-lg border text-sm">
+            {summaryItems.map((item) => (
+              <div key={item.label}>
+                <div className="text-muted-foreground">{item.label}</div>
+                <div className="text-lg font-semibold tabular-nums">{formatCurrency(item.value)}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="overview" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          {canViewHistory && <TabsTrigger value="history">History</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="overview" className="space-y-4">
+          <Card className="border border-border">
+            <CardHeader className="text-lg font-bold">
+              Loans
+              <CardDescription>Open, closed and deleted loans of this party</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50 hover:bg-muted/50">
+                      <TableHead>Loan #</TableHead>
+                      <TableHead>Loan Date</TableHead>
+                      <TableHead className="text-right">Loan Amount</TableHead>
+                      <TableHead className="text-right">Repaid</TableHead>
+                      <TableHead className="text-right">Interest Received</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      <TableHead className="text-right">Balance Interest</TableHead>
+                      <TableHead className="text-center">Status</TableHead>
+                      <TableHead className="text-center">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoansLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center">
+                          <LoaderCircle className="h-8 w-8 animate-spin inline-block" />
+                        </TableCell>
+                      </TableRow>
+                    ) : loans.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-6">
+                          No loans found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      loans.map((loan) => (
+                        <TableRow key={loan.id} className={loan.deletedAt ? "text-muted-foreground line-through" : undefined}>
+                          <TableCell>#{loan.id}</TableCell>
+                          <TableCell>{formatDate(loan.loanDate)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(loan.loanAmount)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(loan.totalReceivedAmount)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(loan.totalReceivedInterest)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(loan.balanceAmount)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(loan.balanceInterest)}</TableCell>
+                          <TableCell className="text-center">{getLoanStatus(loan)}</TableCell>
+                          <TableCell className="text-center">
+                            <div className="flex justify-center gap-1">
+                              {!loan.deletedAt && (
+                                <Button variant="ghost" size="icon" asChild title="View Entries">
+                                  <Link to={`/entries?loanId=${loan.id}`}>
+                                    <List className="h-4 w-4" />
+                                    <span className="sr-only">Entries</span>
+                                  </Link>
+                                </Button>
+                              )}
+                              {!loan.deletedAt && !loan.isClosed && can(MODULES.ENTRIES, PERMISSIONS.CREATE) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleRecordPayment(loan.id)}
+                                  title="Record Payment"
+                                >
+                                  <HandCoins className="h-4 w-4" />
+                                  <span className="sr-only">Record Payment</span>
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                  {activeLoans.length > 0 && (
+                    <TableFooter>
+                      <TableRow className="font-semibold">
+                        <TableCell colSpan={2}>Total (excluding deleted)</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(totals.borrowed)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(totals.repaid)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(totals.interestEarned)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(activeLoans.reduce((sum, loan) => sum + loan.balanceAmount, 0))}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(activeLoans.reduce((sum, loan) => sum + loan.balanceInterest, 0))}
+                        </TableCell>
+                        <TableCell colSpan={2} />
+                      </TableRow>
+                    </TableFooter>
+                  )}
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border border-border">
+            <CardHeader className="text-lg font-bold">
+              Entry Ledger
+              <CardDescription>Entries across all loans of this party, newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50 hover:bg-muted/50">
+                      <TableHead>Entry Date</TableHead>
+                      <TableHead>Loan #</TableHead>
+                      <TableHead className="text-right">Interest Due</TableHead>
+                      <TableHead className="text-right">Received Amount</TableHead>
+                      <TableHead className="text-right">Received Interest</TableHead>
+                      <TableHead>Mode</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isEntriesLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center">
+                          <LoaderCircle className="h-8 w-8 animate-spin inline-block" />
+                        </TableCell>
+                      </TableRow>
+                    ) : !entriesData?.entries.length ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-6">
+                          No entries found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      entriesData.entries.map((entry) => (
+                        <TableRow
+                          key={entry.id}
+                          className={entry.isReversal || entry.reversedAt ? "text-muted-foreground" : undefined}
+                        >
+                          <TableCell>{formatDate(entry.entryDate)}</TableCell>
+                          <TableCell>
+                            <Link to={`/entries?loanId=${entry.loanId}`} className="hover:underline">
+                              #{entry.loanId}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(entry.interestAmount)}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {entry.receivedAmount ? formatCurrency(entry.receivedAmount) : "-"}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {entry.receivedInterest ? formatCurrency(entry.receivedInterest) : "-"}
+                          </TableCell>
+                          <TableCell>
+                            {entry.receivedDate ? (
+                              <div className="flex flex-col">
+                                <span>{getPaymentModeLabel(entry.paymentMode)}</span>
+                                <span className="text-xs text-muted-foreground">{getPaymentReference(entry)}</span>
+                              </div>
+                            ) : (
+                              "-"
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(entry.balanceAmount)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {entriesData && entriesData.totalPages > 1 && (
+                <div className="mt-4">
+                  <CustomPagination
+                    currentPage={currentPage}
+                    totalPages={entriesData.totalPages}
+                    totalRecords={entriesData.totalEntries}
+                    recordsPerPage={recordsPerPage}
+                    onPageChange={handlePageChange}
+                    onRecordsPerPageChange={handleRecordsPerPageChange}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {!!mergesData?.merges.length && (
+            <Card className="border border-border">
+              <CardHeader className="text-lg font-bold">
+                Merge History
+                <CardDescription>Duplicate parties merged into this party</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {mergesData.merges.map((merge) => (
+                  <div key={merge.id} className="rounded-lg border p-3">
+                    <div className="font-medium">
+                      {merge.mergedParties.map((merged) => `${merged.partyName} (A/c ${merged.accountNumber})`).join(", ")}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {format(new Date(merge.mergedAt), "dd MMM yyyy, hh:mm a")}
+                      {merge.mergedBy && ` by ${merge.mergedBy.name}`} — {merge.reason}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+        {canViewHistory && (
+          <TabsContent value="history">
+            <Card className="border border-border">
+              <CardHeader className="text-lg font-bold">
+                History
+                <CardDescription>Every change made to this party</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditHistory entityType="party" entityId={party.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <Dialog open={isCreateLoanOpen} onOpenChange={setIsCreateLoanOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>New Loan for {party.partyName}</DialogTitle>
+          </DialogHeader>
+          <CreateLoan partyIdPrefill={party.id} onSuccess={() => setIsCreateLoanOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <EntryDialog
+        selectedLoanId={paymentLoanId}
+        isEntryDialogOpen={isEntryDialogOpen}
+        setIsEntryDialogOpen={setIsEntryDialogOpen}
+        setSelectedLoanId={setPaymentLoanId}
+      />
+    </div>
+  );
+};
+
+export default PartyDetail;
@@ -1,16 +1,26 @@
-import { useEffect } from "react";
-import { useForm, SubmitHandler } from "react-hook-form";
+import { useEffect, useState } from "react";
+import { useForm, SubmitHandler, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { LoaderCircle } from "lucide-react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { post, put, get } from "@/services/apiService";
 import Validate from "@/lib/Handlevalidation";
+import { useBranch } from "@/hooks/useBranch";
+import DuplicatePartyDialog from "./DuplicatePartyDialog";
+import { partyFormSchema, PartyFormInputs } from "./partySchema";
+import { findPartyDuplicates, PartyDuplicateCandidate } from "./partyDuplicates";
 
 // Define interfaces for API responses
 interface PartyData {
@@ -23,31 +33,11 @@ interface PartyData {
   reference: string;
   referenceMobile1: string;
   referenceMobile2: string;
+  branchId: number;
   createdAt: string;
   updatedAt: string;
 }
 
-const partyFormSchema = z.object({
-  partyName: z.string()
-    .min(1, "Party name is required")
-    .max(255, "Party name must not exceed 255 characters"),
-    accountNumber: z.string()
-    .min(1, "Account number is required")
-    .max(255, "Account number must not exceed 255 characters"),
-    address: z.string()
-    .min(1, "Address is required")
-    .max(255, "Address must not exceed 255 characters"),
-    mobile1: z.string()
-    .min(1, "Mobile number is required")
-    .max(255, "Mobile number must not exceed 255 characters"),
-    mobile2: z.any().optional(),
-    reference: z.any()
-    .optional(),
-    referenceMobile1: z.any()
-    .optional(),
-    referenceMobile2: z.any().optional(),
-});
-
 // Helper to extract user-friendly message from API error
 const prettifyFieldName = (key: string): string => {
   // Remove table prefix and suffix if present
@@ -75,7 +65,11 @@ const extractErrorMessage = (error: any): string | undefined => {
   return error?.message;
 };
 
-type PartyFormInputs = z.infer<typeof partyFormSchema>;
+
+type PartyPayload = PartyFormInputs & {
+  /** Why the user saved despite likely duplicates */
+  duplicateReason?: string;
+};
 
 interface PartyFormProps {
   mode: "create" | "edit";
@@ -92,6 +86,10 @@ const PartyForm = ({
 }: PartyFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const [duplicateMatches, setDuplicateMatches] = useState<PartyDuplicateCandidate[]>([]);
+  const [pendingData, setPendingData] = useState<PartyFormInputs | null>(null);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const { branches, isHeadOffice, selectedBranchId } = useBranch();
   // Combined loading party from fetch and mutations
 
   const {
@@ -99,6 +97,7 @@ const PartyForm = ({
     handleSubmit,
     setValue,
     setError,
+    control,
     formState: { errors },
   } = useForm<PartyFormInputs>({
     resolver: zodResolver(partyFormSchema),
@@ -111,6 +110,7 @@ const PartyForm = ({
       reference: "",
       referenceMobile1: "",
       referenceMobile2: "",
+      branchId: mode === "create" ? selectedBranchId ?? undefined : undefined,
     },
   });
 
@@ -143,6 +143,7 @@ const PartyForm = ({
         setValue("reference", data.reference);
         setValue("referenceMobile1", data.referenceMobile1);
         setValue("referenceMobile2", data.referenceMobile2);
+        setValue("branchId", data.branchId);
       }).catch((error) => {
         toast.error(error.message || "Failed to fetch party details");
         if (onSuccess) {
@@ -156,7 +157,7 @@ const PartyForm = ({
 
   // Mutation for creating a party
   const createPartyMutation = useMutation({
-    mutationFn: (data: PartyFormInputs) => {
+    mutationFn: (data: PartyPayload) => {
       return post("/parties", data);
     },
     onSuccess: () => {
@@ -185,7 +186,7 @@ const PartyForm = ({
 
   // Mutation for updating a party
   const updatePartyMutation = useMutation({
-    mutationFn: (data: PartyFormInputs) => {
+    mutationFn: (data: PartyPayload) => {
       return put(`/parties/${partyId}`, data);
     },
     onSuccess: () => {
@@ -213,8 +214,7 @@ const PartyForm = ({
     },
   });
 
-  // Handle form submission
-  const onSubmit: SubmitHandler<PartyFormInputs> = (data) => {
+  const saveParty = (data: PartyPayload) => {
     if (mode === "create") {
       createPartyMutation.mutate(data);
     } else {
@@ -222,6 +222,55 @@ const PartyForm = ({
     }
   };
 
+  // Handle form submission
+  const onSubmit: SubmitHandler<PartyFormInputs> = async (data) => {
+    if (isHeadOffice && !data.branchId) {
+      setError("branchId", { type: "manual", message: "Branch is required" });
+      return;
+    }
+    setIsCheckingDuplicates(true);
+    try {
+      const matches = await findPartyDuplicates({
+        partyName: data.partyName,
+        accountNumber: data.accountNumber,
+        mobile1: data.mobile1,
+        mobile2: data.mobile2,
+        excludeId: mode === "edit" ? partyId : undefined,
+      });
+      if (matches.length > 0) {
+        setPendingData(data);
+        setDuplicateMatches(matches);
+        return;
+      }
+    } catch (error) {
+      // The server still enforces unique fields, so a failed check should not block saving
+      console.error("Failed to check for duplicate parties:", error);
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+    saveParty(data);
+  };
+
+  const handleDuplicateDialogClose = () => {
+    setDuplicateMatches([]);
+    setPendingData(null);
+  };
+
+  const handleConfirmNewParty = (reason: string) => {
+    if (pendingData) {
+      saveParty({ ...pendingData, duplicateReason: reason });
+    }
+    handleDuplicateDialogClose();
+  };
+
+  const handleUseExistingParty = (party: PartyDuplicateCandidate) => {
+    handleDuplicateDialogClose();
+    if (onSuccess) {
+      onSuccess();
+    }
+    navigate(`/parties/${party.id}`);
+  };
+
   const handleCancel = () => {
     if (onSuccess) {
       onSuccess();
@@ -231,7 +280,8 @@ const PartyForm = ({
   };
 
   // Combined loading party from fetch and mutations
-  const isFormLoading = isFetchingParty || createPartyMutation.isPending || updatePartyMutation.isPending;
+  const isFormLoading =
+    isFetchingParty || isCheckingDuplicates || createPartyMutation.isPending || updatePartyMutation.isPending;
 
   return (
     <div className={className}>
@@ -369,6 +419,40 @@ type="tel"
                 )}
               </div>
             </div>
+
+            {/* Branch Field (head office only; everyone else adds to their own branch) */}
+            {isHeadOffice && (
+              <div>
+                <Label htmlFor="branchId" className="block mb-2">Branch <span className="text-red-500">*</span></Label>
+                <Controller
+                  name="branchId"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      value={field.value ? String(field.value) : undefined}
+                      onValueChange={(value) => field.onChange(Number(value))}
+                      disabled={isFormLoading}
+                    >
+                      <SelectTrigger id="branchId" className="w-full">
+                        <SelectValue placeholder="Select a branch" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {branches.map((branch) => (
+                          <SelectItem key={branch.id} value={String(branch.id)}>
+                            {branch.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.branchId && (
+                  <span className="mt-1 block text-xs text-destructive">
+                    {errors.branchId.message}
+                  </span>
+                )}
+              </div>
+            )}
         </div>
 
         {/* Form Actions */}
@@ -387,6 +471,15 @@ type="tel"
           </Button>
         </div>
       </form>
+
+      <DuplicatePartyDialog
+        isOpen={duplicateMatches.length > 0}
+        matches={duplicateMatches}
+        onClose={handleDuplicateDialogClose}
+        onUseExisting={mode === "create" ? handleUseExistingParty : undefined}
+        onConfirmNew={handleConfirmNewParty}
+        confirmLabel={mode === "create" ? "Create as new party" : "Save anyway"}
+      />
     </div>
   );
 };
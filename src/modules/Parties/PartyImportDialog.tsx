@@ -0,0 +1,384 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2, Download, FileSpreadsheet, LoaderCircle } from "lucide-react";
+import { post, ApiError } from "@/services/apiService";
+import { downloadCsv } from "@/lib/export";
+import { useBranch } from "@/hooks/useBranch";
+import { readSpreadsheet, SpreadsheetData } from "@/lib/spreadsheetImport";
+import { findPartyDuplicatesBatch } from "./partyDuplicates";
+import {
+  applyDuplicateResults,
+  guessColumnMapping,
+  PARTY_IMPORT_FIELDS,
+  PartyColumnMapping,
+  PartyImportRow,
+  validatePartyRows,
+} from "./partyImport";
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+const STEP_LABELS: Record<ImportStep, string> = {
+  upload: "1. Upload",
+  map: "2. Map columns",
+  preview: "3. Preview",
+  done: "4. Done",
+};
+
+interface PartyImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PartyImportDialog: React.FC<PartyImportDialogProps> = ({ isOpen, onClose }) => {
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<PartyColumnMapping>({});
+  const [rows, setRows] = useState<PartyImportRow[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [showRejectedOnly, setShowRejectedOnly] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  // Head-office users pick the branch the whole file goes into; everyone else imports into their own
+  const { branches, isHeadOffice, selectedBranchId } = useBranch();
+  const [importBranchId, setImportBranchId] = useState<number | null>(selectedBranchId);
+  const isMissingBranch = isHeadOffice && !importBranchId;
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const rejectedRows = rows.filter((row) => row.errors.length > 0);
+  const missingRequired = PARTY_IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === undefined);
+
+  const importMutation = useMutation({
+    mutationFn: (parties: PartyImportRow["values"][]) =>
+      post("/parties/import", { parties, branchId: importBranchId ?? undefined }),
+    onSuccess: (data) => {
+      setImportedCount(data?.imported ?? validRows.length);
+      setStep("done");
+      toast.success("Parties imported successfully");
+      queryClient.invalidateQueries({ queryKey: ["parties"] });
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || "Failed to import parties");
+    },
+  });
+
+  const resetWizard = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setRows([]);
+    setShowRejectedOnly(false);
+    setImportedCount(0);
+    setImportBranchId(selectedBranchId);
+  };
+
+  const handleClose = () => {
+    resetWizard();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast.error("The file has a header row but no parties");
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep("map");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to read the file");
+    } finally {
+      setIsReading(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadCsv(
+      "party-import-template.csv",
+      PARTY_IMPORT_FIELDS.map((field) => field.label),
+      []
+    );
+  };
+
+  const handleMappingChange = (field: keyof PartyColumnMapping, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === "none") {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+    setIsValidating(true);
+    try {
+      const validated = validatePartyRows(sheet.rows, mapping);
+      // Only rows that pass the form rules are worth checking against existing parties
+      const candidates = validated
+        .filter((row) => row.errors.length === 0)
+        .map((row) => ({
+          key: row.rowNumber,
+          partyName: row.values.partyName,
+          accountNumber: row.values.accountNumber,
+          mobile1: row.values.mobile1,
+          mobile2: row.values.mobile2,
+        }));
+      const results = candidates.length > 0 ? await findPartyDuplicatesBatch(candidates) : [];
+      setRows(applyDuplicateResults(validated, results));
+      setStep("preview");
+    } catch (error) {
+      toast.error((error as ApiError).message || "Failed to check for duplicate parties");
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleDownloadRejected = () => {
+    if (!sheet) return;
+    downloadCsv(
+      `party-import-rejected-${format(new Date(), "yyyy-MM-dd")}.csv`,
+      ["Row", ...sheet.headers, "Errors"],
+      rejectedRows.map((row) => [row.rowNumber, ...row.source, row.errors.join("; ")])
+    );
+  };
+
+  const visibleRows = showRejectedOnly ? rejectedRows : rows;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Parties
+          </DialogTitle>
+          <DialogDescription>
+            {(Object.keys(STEP_LABELS) as ImportStep[]).map((key) => (
+              <span key={key} className={key === step ? "mr-4 font-semibold text-foreground" : "mr-4"}>
+                {STEP_LABELS[key]}
+              </span>
+            ))}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="partyImportFile">CSV or Excel (.xlsx) file</Label>
+              <Input
+                id="partyImportFile"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={handleFileChange}
+                disabled={isReading}
+              />
+              <p className="text-xs text-muted-foreground">
+                The first row must contain column headings. Only the first worksheet of a workbook is read.
+              </p>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={handleDownloadTemplate}>
+                <Download className="mr-2 h-4 w-4" />
+                Download template
+              </Button>
+              {isReading && <LoaderCircle className="h-5 w-5 animate-spin" />}
+            </div>
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {sheet.rows.length} rows. Match each party field to a column of the file.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {PARTY_IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="grid gap-1">
+                  <Label>
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] !== undefined ? String(mapping[field.key]) : "none"}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">— Not mapped —</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Map the required fields: {missingRequired.map((field) => field.label).join(", ")}
+              </p>
+            )}
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={resetWizard}>
+                Back
+              </Button>
+              <Button onClick={handleValidate} disabled={missingRequired.length > 0 || isValidating}>
+                {isValidating && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                Validate
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge variant="outline">{rows.length} rows</Badge>
+              <Badge className="bg-green-600 hover:bg-green-600">{validRows.length} valid</Badge>
+              <Badge variant="destructive">{rejectedRows.length} rejected</Badge>
+              <label className="ml-auto flex items-center gap-2">
+                <Checkbox
+                  checked={showRejectedOnly}
+                  onCheckedChange={(checked) => setShowRejectedOnly(checked === true)}
+                />
+                Show rejected only
+              </label>
+            </div>
+            {isHeadOffice && (
+              <div className="grid gap-2 max-w-xs">
+                <Label htmlFor="partyImportBranch">
+                  Import into branch <span className="text-red-500">*</span>
+                </Label>
+                <Select
+                  value={importBranchId ? String(importBranchId) : undefined}
+                  onValueChange={(value) => setImportBranchId(Number(value))}
+                >
+                  <SelectTrigger id="partyImportBranch">
+                    <SelectValue placeholder="Select a branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={String(branch.id)}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="rounded-md border max-h-[45vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead>Row</TableHead>
+                    <TableHead>Party Name</TableHead>
+                    <TableHead>Account Number</TableHead>
+                    <TableHead>Mobile 1</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <TableRow key={row.rowNumber} className={row.errors.length ? "bg-red-50 dark:bg-red-900/20" : undefined}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.values.partyName}</TableCell>
+                      <TableCell>{row.values.accountNumber}</TableCell>
+                      <TableCell>{row.values.mobile1}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-600">Valid</span>
+                        ) : (
+                          <ul className="text-xs text-destructive list-disc pl-4">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex flex-wrap justify-end gap-3">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button variant="outline" onClick={handleDownloadRejected} disabled={rejectedRows.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Rejected rows report
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(validRows.map((row) => row.values))}
+                disabled={validRows.length === 0 || isMissingBranch || importMutation.isPending}
+              >
+                {importMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                Import {validRows.length} parties
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-4 text-center py-4">
+            <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+            <p>
+              Imported {importedCount} parties.
+              {rejectedRows.length > 0 && ` ${rejectedRows.length} rows were rejected.`}
+            </p>
+            <div className="flex justify-center gap-3">
+              {rejectedRows.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadRejected}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Rejected rows report
+                </Button>
+              )}
+              <Button onClick={handleClose}>Close</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PartyImportDialog;
@@ -1,4 +1,5 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -19,6 +20,7 @@ import {
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   LoaderCircle,
   PenSquare,
@@ -26,7 +28,10 @@ import {
   Trash2,
   ChevronUp,
   ChevronDown,
-  PlusCircle
+  PlusCircle,
+  Eye,
+  Merge,
+  Upload
 } from "lucide-react";
 import {
   AlertDialog,
@@ -44,6 +49,12 @@ import { get, del } from "@/services/apiService";
 // Import components from current directory
 import CreateParty from "./CreateParty";
 import EditParty from "./EditParty";
+import MergePartiesDialog from "./MergePartiesDialog";
+import PartyImportDialog from "./PartyImportDialog";
+import { MergeableParty } from "./partyMerge";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { useBranch } from "@/hooks/useBranch";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
 
 const PartyList = () => {
   const [page, setPage] = useState(1);
@@ -54,7 +65,18 @@ const PartyList = () => {
   const [editPartyId, setEditPartyId] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  // Kept across pages and searches so duplicates found separately can be merged together
+  const [selectedParties, setSelectedParties] = useState<Record<number, MergeableParty>>({});
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const queryClient = useQueryClient();
+  const { can } = useRoleAccess();
+  // Merging edits the survivor and deletes the others
+  const canMerge = can(MODULES.PARTIES, PERMISSIONS.MERGE);
+  const selectedPartyList = useMemo(() => Object.values(selectedParties), [selectedParties]);
+  // The consolidated view mixes branches, so show which one each party belongs to
+  const { isAllBranches } = useBranch();
+  const columnCount = 5 + (canMerge ? 1 : 0) + (isAllBranches ? 1 : 0);
 
   // Fetch parties
   const {
@@ -125,6 +147,23 @@ const PartyList = () => {
     setEditPartyId(null);
   };
 
+  const togglePartySelection = (party: MergeableParty, checked: boolean) => {
+    setSelectedParties((current) => {
+      const next = { ...current };
+      if (checked) {
+        next[party.id] = party;
+      } else {
+        delete next[party.id];
+      }
+      return next;
+    });
+  };
+
+  const handleMergeSuccess = () => {
+    setIsMergeDialogOpen(false);
+    setSelectedParties({});
+  };
+
   // Handle error party
   if (isError) {
     return (
@@ -166,13 +205,38 @@ const PartyList = () => {
             </div>
 
             {/* Action Buttons */}
-            <Button
-              onClick={() => setIsCreateDialogOpen(true)}
-              size="sm"
-            >
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add
-            </Button>
+            {canMerge && selectedPartyList.length > 0 && (
+              <>
+                <span className="text-sm text-muted-foreground">{selectedPartyList.length} selected</span>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedParties({})}>
+                  Clear
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selectedPartyList.length < 2}
+                  onClick={() => setIsMergeDialogOpen(true)}
+                >
+                  <Merge className="mr-2 h-4 w-4" />
+                  Merge
+                </Button>
+              </>
+            )}
+            {can(MODULES.PARTIES, PERMISSIONS.CREATE) && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setIsImportDialogOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+                <Button
+                  onClick={() => setIsCreateDialogOpen(true)}
+                  size="sm"
+                >
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add
+                </Button>
+              </>
+            )}
           </div>
 
  
@@ -181,6 +245,7 @@ const PartyList = () => {
             <Table>
               <TableHeader>
                 <TableRow className="bg-muted/50 hover:bg-muted/50">
+                {canMerge && <TableHead className="w-10" />}
                 <TableHead>Account Number</TableHead>
 
                   <TableHead className="w-auto cursor-pointer" onClick={() => handleSort("partyName")}>
@@ -191,6 +256,7 @@ const PartyList = () => {
                       </span>
                     )}
                   </TableHead>
+                  {isAllBranches && <TableHead>Branch</TableHead>}
                   <TableHead>Mobile1</TableHead>
                   <TableHead>Reference</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -199,67 +265,91 @@ const PartyList = () => {
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="h-24 text-center">
+                    <TableCell colSpan={columnCount} className="h-24 text-center">
                       <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
                       <p className="mt-2">Loading parties...</p>
                     </TableCell>
                   </TableRow>
                 ) : data?.parties?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="h-24 text-center">
+                    <TableCell colSpan={columnCount} className="h-24 text-center">
                       No parties found.
                     </TableCell>
                   </TableRow>
                 ) : (
                   data?.parties?.map((party: any) => (
                     <TableRow key={party.id}>
+                      {canMerge && (
+                        <TableCell>
+                          <Checkbox
+                            checked={!!selectedParties[party.id]}
+                            onCheckedChange={(checked) => togglePartySelection(party, checked === true)}
+                            aria-label={`Select ${party.partyName}`}
+                          />
+                        </TableCell>
+                      )}
                       <TableCell>{party.accountNumber}</TableCell>
-                      <TableCell>{party.partyName}</TableCell>
+                      <TableCell>
+                        <Link to={`/parties/${party.id}`} className="font-medium hover:underline">
+                          {party.partyName}
+                        </Link>
+                      </TableCell>
+                      {isAllBranches && <TableCell>{party.branch?.name ?? "—"}</TableCell>}
                       <TableCell>{party.mobile1}</TableCell>
                       <TableCell>{party.reference}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEdit(party.id.toString())}
-                          >
-                            <PenSquare className="h-4 w-4" />
-                            <span className="sr-only">Edit</span>
+                          <Button variant="ghost" size="icon" asChild title="View Party">
+                            <Link to={`/parties/${party.id}`}>
+                              <Eye className="h-4 w-4" />
+                              <span className="sr-only">View</span>
+                            </Link>
                           </Button>
+                          {can(MODULES.PARTIES, PERMISSIONS.EDIT) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEdit(party.id.toString())}
+                            >
+                              <PenSquare className="h-4 w-4" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                          )}
                           
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="icon">
-                                <Trash2 className="h-4 w-4" />
-                                <span className="sr-only">Delete</span>
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete this party? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction 
-                                  onClick={() => deleteMutation.mutate(party.id)}
-                                  className="bg-red-500 hover:bg-red-600"
-                                >
-                                  {deleteMutation.isPending ? (
-                                    <>
-                                      <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                                      Deleting...
-                                    </>
-                                  ) : (
-                                    "Delete"
-                                  )}
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                          {can(MODULES.PARTIES, PERMISSIONS.DELETE) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon">
+                                  <Trash2 className="h-4 w-4" />
+                                  <span className="sr-only">Delete</span>
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete this party? Its loans will be moved to the recycle bin along with it, where they can be restored.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction 
+                                    onClick={() => deleteMutation.mutate(party.id)}
+                                    className="bg-red-500 hover:bg-red-600"
+                                  >
+                                    {deleteMutation.isPending ? (
+                                      <>
+                                        <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
+                                        Deleting...
+                                      </>
+                                    ) : (
+                                      "Delete"
+                                    )}
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -314,6 +404,18 @@ const PartyList = () => {
         </DialogContent>
       </Dialog>
 
+      <PartyImportDialog isOpen={isImportDialogOpen} onClose={() => setIsImportDialogOpen(false)} />
+
+      {/* Merge Parties Dialog */}
+      {canMerge && (
+        <MergePartiesDialog
+          isOpen={isMergeDialogOpen}
+          parties={selectedPartyList}
+          onClose={() => setIsMergeDialogOpen(false)}
+          onSuccess={handleMergeSuccess}
+        />
+      )}
+
       {/* Edit Party Dialog */}
       {editPartyId && (
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -0,0 +1,57 @@
+import { get, post } from "@/services/apiService";
+
+export type DuplicateMatchReason = "mobile" | "accountNumber" | "partyName";
+
+export const DUPLICATE_MATCH_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  mobile: "Same mobile",
+  accountNumber: "Same account number",
+  partyName: "Similar name",
+};
+
+export interface PartyDuplicateCandidate {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+  address?: string;
+  mobile1: string;
+  mobile2?: string | null;
+  matchReasons: DuplicateMatchReason[];
+  openLoans: {
+    id: number;
+    loanDate: string;
+    loanAmount: number;
+    balanceAmount: number;
+  }[];
+}
+
+export interface PartyDuplicateCriteria {
+  partyName?: string;
+  accountNumber?: string;
+  mobile1?: string;
+  mobile2?: string;
+  /** Party being edited, so it is not reported as its own duplicate */
+  excludeId?: number | string;
+}
+
+// Exact matches on mobiles and account number, fuzzy match on the name (done server-side)
+export const findPartyDuplicates = async (criteria: PartyDuplicateCriteria): Promise<PartyDuplicateCandidate[]> => {
+  const params = Object.fromEntries(
+    Object.entries(criteria).filter(([, value]) => value !== undefined && String(value).trim() !== "")
+  );
+  const response = await get("/parties/duplicates", params);
+  return response.matches ?? [];
+};
+
+export interface PartyDuplicateBatchResult {
+  /** Row key sent in the request, echoed back */
+  key: number;
+  matches: PartyDuplicateCandidate[];
+}
+
+// One request for many candidates, used when importing a sheet of parties
+export const findPartyDuplicatesBatch = async (
+  parties: (PartyDuplicateCriteria & { key: number })[]
+): Promise<PartyDuplicateBatchResult[]> => {
+  const response = await post("/parties/duplicates", { parties });
+  return response.results ?? [];
+};
@@ -0,0 +1,94 @@
+import { partyFormSchema, PartyFormInputs } from "./partySchema";
+import { DUPLICATE_MATCH_REASON_LABELS, PartyDuplicateBatchResult } from "./partyDuplicates";
+
+export type PartyImportField = keyof PartyFormInputs;
+
+export const PARTY_IMPORT_FIELDS: { key: PartyImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: "partyName", label: "Party Name", required: true, aliases: ["name", "borrower", "borrowername"] },
+  { key: "accountNumber", label: "Account Number", required: true, aliases: ["accountno", "acno", "account"] },
+  { key: "address", label: "Address", required: true, aliases: [] },
+  { key: "mobile1", label: "Mobile 1", required: true, aliases: ["mobile", "mobileno", "phone", "contact"] },
+  { key: "mobile2", label: "Mobile 2", required: false, aliases: ["alternatemobile", "phone2"] },
+  { key: "reference", label: "Reference", required: false, aliases: ["referencename", "guarantor"] },
+  { key: "referenceMobile1", label: "Reference Mobile 1", required: false, aliases: ["referencemobile"] },
+  { key: "referenceMobile2", label: "Reference Mobile 2", required: false, aliases: [] },
+];
+
+/** Column index in the uploaded sheet for each party field */
+export type PartyColumnMapping = Partial<Record<PartyImportField, number>>;
+
+export interface PartyImportRow {
+  /** Row number as the user sees it in the sheet (header is row 1) */
+  rowNumber: number;
+  source: string[];
+  values: PartyFormInputs;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const guessColumnMapping = (headers: string[]): PartyColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: PartyColumnMapping = {};
+  PARTY_IMPORT_FIELDS.forEach(({ key, label, aliases }) => {
+    const candidates = [normalizeHeader(key), normalizeHeader(label), ...aliases];
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[key] = index;
+    }
+  });
+  return mapping;
+};
+
+// Same zod rules as PartyForm, plus account number / mobile clashes within the file itself
+export const validatePartyRows = (rows: string[][], mapping: PartyColumnMapping): PartyImportRow[] => {
+  const seenAccounts = new Map<string, number>();
+  const seenMobiles = new Map<string, number>();
+
+  return rows.map((source, index) => {
+    const rowNumber = index + 2;
+    const values = Object.fromEntries(
+      PARTY_IMPORT_FIELDS.map(({ key }) => [key, mapping[key] !== undefined ? source[mapping[key]] ?? "" : ""])
+    ) as Omit<PartyFormInputs, "branchId">;
+
+    const result = partyFormSchema.safeParse(values);
+    const errors = result.success ? [] : result.error.issues.map((issue) => issue.message);
+
+    const accountNumber = values.accountNumber.toLowerCase();
+    if (accountNumber) {
+      const earlierRow = seenAccounts.get(accountNumber);
+      if (earlierRow) errors.push(`Same account number as row ${earlierRow}`);
+      else seenAccounts.set(accountNumber, rowNumber);
+    }
+    [values.mobile1, values.mobile2].filter(Boolean).forEach((mobile: string) => {
+      const earlierRow = seenMobiles.get(mobile);
+      if (earlierRow && earlierRow !== rowNumber) errors.push(`Mobile ${mobile} also used in row ${earlierRow}`);
+      else seenMobiles.set(mobile, rowNumber);
+    });
+
+    return { rowNumber, source, values, errors };
+  });
+};
+
+export const applyDuplicateResults = (
+  rows: PartyImportRow[],
+  results: PartyDuplicateBatchResult[]
+): PartyImportRow[] => {
+  const matchesByRow = new Map(results.map((result) => [result.key, result.matches]));
+  return rows.map((row) => {
+    const matches = matchesByRow.get(row.rowNumber) ?? [];
+    if (matches.length === 0) return row;
+    return {
+      ...row,
+      errors: [
+        ...row.errors,
+        ...matches.map(
+          (match) =>
+            `Possible duplicate of ${match.partyName} (A/c ${match.accountNumber}): ${match.matchReasons
+              .map((reason) => DUPLICATE_MATCH_REASON_LABELS[reason].toLowerCase())
+              .join(", ")}`
+        ),
+      ],
+    };
+  });
+};
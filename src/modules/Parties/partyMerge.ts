@@ -0,0 +1,44 @@
+export interface MergeableParty {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+  address: string;
+  mobile1: string;
+  mobile2: string;
+  reference: string;
+  referenceMobile1: string;
+  referenceMobile2: string;
+}
+
+export type PartyMergeField = Exclude<keyof MergeableParty, "id">;
+
+export const PARTY_MERGE_FIELDS: { key: PartyMergeField; label: string }[] = [
+  { key: "partyName", label: "Party Name" },
+  { key: "accountNumber", label: "Account Number" },
+  { key: "address", label: "Address" },
+  { key: "mobile1", label: "Mobile 1" },
+  { key: "mobile2", label: "Mobile 2" },
+  { key: "reference", label: "Reference" },
+  { key: "referenceMobile1", label: "Reference Mobile 1" },
+  { key: "referenceMobile2", label: "Reference Mobile 2" },
+];
+
+/** Party id whose value is kept, per field */
+export type PartyMergeSelection = Record<PartyMergeField, number>;
+
+// Start from the survivor's values, falling back to the first party that has one
+export const getDefaultMergeSelection = (survivor: MergeableParty, parties: MergeableParty[]): PartyMergeSelection =>
+  Object.fromEntries(
+    PARTY_MERGE_FIELDS.map(({ key }) => {
+      const source = survivor[key] ? survivor : parties.find((party) => party[key]) ?? survivor;
+      return [key, source.id];
+    })
+  ) as PartyMergeSelection;
+
+export const buildMergedValues = (
+  parties: MergeableParty[],
+  selection: PartyMergeSelection
+): Omit<MergeableParty, "id"> =>
+  Object.fromEntries(
+    PARTY_MERGE_FIELDS.map(({ key }) => [key, parties.find((party) => party.id === selection[key])?.[key] ?? ""])
+  ) as Omit<MergeableParty, "id">;
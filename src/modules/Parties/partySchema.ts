@@ -0,0 +1,26 @@
+import * as z from "zod";
+
+export const partyFormSchema = z.object({
+  partyName: z.string()
+    .min(1, "Party name is required")
+    .max(255, "Party name must not exceed 255 characters"),
+    accountNumber: z.string()
+    .min(1, "Account number is required")
+    .max(255, "Account number must not exceed 255 characters"),
+    address: z.string()
+    .min(1, "Address is required")
+    .max(255, "Address must not exceed 255 characters"),
+    mobile1: z.string()
+    .min(1, "Mobile number is required")
+    .max(255, "Mobile number must not exceed 255 characters"),
+    mobile2: z.any().optional(),
+    reference: z.any()
+    .optional(),
+    referenceMobile1: z.any()
+    .optional(),
+    referenceMobile2: z.any().optional(),
+    // Left empty for branch users; the server assigns their own branch
+    branchId: z.number().optional(),
+});
+
+export type PartyFormInputs = z.infer<typeof partyFormSchema>;
@@ -1,38 +1,15 @@
-import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { toast } from 'sonner';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import {
-  LoaderCircle,
-  RefreshCw,
-  Trash2,
-  RotateCcw,
-  AlertTriangle,
-} from 'lucide-react';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from '@/components/ui/alert-dialog';
-import CustomPagination from '@/components/common/custom-pagination';
-import { get, post, del } from '@/services/apiService';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { formatCurrency } from '@/lib/formatter';
+import { get } from '@/services/apiService';
+import { useRoleAccess } from '@/hooks/useRoleAccess';
+import { MODULES, PERMISSIONS } from '@/config/permissions';
+import RecycleBinTab, { RecycleBinTypeConfig } from './RecycleBinTab';
+import RetentionSettingsDialog from './RetentionSettingsDialog';
+import { RecycleBinSettings } from './recycleBinRetention';
 
 // Types
 interface DeletedLoan {
@@ -51,87 +28,154 @@ interface DeletedLoan {
   };
 }
 
-interface DeletedLoansResponse {
-  loans: DeletedLoan[];
-  page: number;
-  totalPages: number;
-  totalLoans: number;
+interface DeletedParty {
+  id: number;
+  partyName: string;
+  accountNumber: string;
+  mobile1: string;
+  address: string;
+  deletedAt: string;
+  deletedLoansCount: number;
 }
 
-const RecycleBin = () => {
-  const [loansPage, setLoansPage] = useState(1);
-  const limit = 10;
-  
-  const queryClient = useQueryClient();
+interface DeletedEntry {
+  id: number;
+  loanId: number;
+  entryDate: string;
+  receivedAmount: number | null;
+  receivedInterest: number | null;
+  deletedAt: string;
+  loan: {
+    party: {
+      partyName: string;
+    };
+  };
+}
 
-  // Fetch deleted loans
-  const {
-    data: loansData,
-    isLoading: isLoadingLoans,
-    isError: isErrorLoans,
-    error: loansError,
-  } = useQuery<DeletedLoansResponse>({
-    queryKey: ['recycle-bin-loans', loansPage, limit],
-    queryFn: () => get('/recycle-bin/loans', { page: loansPage, limit }),
-    keepPreviousData: true,
-  });
+interface DeletedUser {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  deletedAt: string;
+}
 
-  // Restore loan mutation
-  const restoreLoanMutation = useMutation({
-    mutationFn: (id: number) => post(`/recycle-bin/loans/${id}/restore`, {}),
-    onSuccess: (data: any) => {
-      const entriesCount = data.restoredEntriesCount || 0;
-      const message = entriesCount > 0 
-        ? `Loan and ${entriesCount} related entries restored successfully`
-        : 'Loan restored successfully';
-      toast.success(message);
-      queryClient.invalidateQueries({ queryKey: ['recycle-bin-loans'] });
-      queryClient.invalidateQueries({ queryKey: ['loans'] });
-      queryClient.invalidateQueries({ queryKey: ['entries'] });
-    },
-    onError: (error: any) => {
-      toast.error(error.message || 'Failed to restore loan');
-    },
-  });
+const withRelatedEntries = (verb: string, count = 0) =>
+  count > 0 ? `Loan and ${count} related entries ${verb}` : `Loan ${verb}`;
 
-  // Permanently delete loan mutation
-  const permanentlyDeleteLoanMutation = useMutation({
-    mutationFn: (id: number) => del(`/recycle-bin/loans/${id}`),
-    onSuccess: (data: any) => {
-      const entriesCount = data.deletedEntriesCount || 0;
-      const message = entriesCount > 0 
-        ? `Loan and ${entriesCount} related entries permanently deleted`
-        : 'Loan permanently deleted';
-      toast.success(message);
-      queryClient.invalidateQueries({ queryKey: ['recycle-bin-loans'] });
-    },
-    onError: (error: any) => {
-      toast.error(error.message || 'Failed to permanently delete loan');
+const loansConfig: RecycleBinTypeConfig<DeletedLoan> = {
+  type: 'loans',
+  singular: 'Loan',
+  plural: 'Loans',
+  searchPlaceholder: 'Search by party or loan id...',
+  listKey: 'loans',
+  totalKey: 'totalLoans',
+  columns: [
+    { header: 'Loan Date', render: (loan) => new Date(loan.loanDate).toLocaleDateString() },
+    {
+      header: 'Party',
+      render: (loan) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{loan.party.partyName}</span>
+          <span className="text-sm text-muted-foreground">{loan.party.mobile1}</span>
+        </div>
+      ),
     },
-  });
+    { header: 'Loan Amount', render: (loan) => formatCurrency(loan.loanAmount) },
+    { header: 'Interest', render: (loan) => `${loan.interest}%` },
+  ],
+  describe: (loan) => `the loan for ${loan.party.partyName}`,
+  invalidateOnRestore: ['loans', 'entries'],
+  restoredMessage: (data) => withRelatedEntries('restored successfully', data.restoredEntriesCount),
+  deletedMessage: (data) => withRelatedEntries('permanently deleted', data.deletedEntriesCount),
+};
 
-  // Empty recycle bin mutation
-  const emptyRecycleBinMutation = useMutation({
-    mutationFn: () => del('/recycle-bin/empty?type=loans'),
-    onSuccess: (data: any) => {
-      const loansCount = data.deletedLoansCount || 0;
-      const entriesCount = data.deletedEntriesCount || 0;
-      let message = 'Recycle bin emptied successfully';
-      
-      if (loansCount > 0 && entriesCount > 0) {
-        message = `${loansCount} loans and ${entriesCount} related entries permanently deleted`;
-      } else if (loansCount > 0) {
-        message = `${loansCount} loans permanently deleted`;
-      }
-      
-      toast.success(message);
-      queryClient.invalidateQueries({ queryKey: ['recycle-bin-loans'] });
-    },
-    onError: (error: any) => {
-      toast.error(error.message || 'Failed to empty recycle bin');
+const partiesConfig: RecycleBinTypeConfig<DeletedParty> = {
+  type: 'parties',
+  singular: 'Party',
+  plural: 'Parties',
+  searchPlaceholder: 'Search by party name or account number...',
+  listKey: 'parties',
+  totalKey: 'totalParties',
+  columns: [
+    { header: 'Account Number', render: (party) => party.accountNumber },
+    {
+      header: 'Party',
+      render: (party) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{party.partyName}</span>
+          <span className="text-sm text-muted-foreground">{party.mobile1}</span>
+        </div>
+      ),
     },
+    { header: 'Deleted Loans', render: (party) => party.deletedLoansCount },
+  ],
+  describe: (party) => party.partyName,
+  invalidateOnRestore: ['parties', 'loans', 'entries'],
+  // Loans deleted together with the party stay in the bin unless the user asks for them back
+  relatedRestore: {
+    hasRelated: (party) => party.deletedLoansCount > 0,
+    getPrompt: (parties) =>
+      parties.length === 1
+        ? `${parties[0].partyName} has ${parties[0].deletedLoansCount} deleted loan(s) in the recycle bin. Restore them along with the party?`
+        : 'Some of the selected parties have deleted loans in the recycle bin. Restore them along with the parties?',
+    actionLabel: 'Restore party and loans',
+    payload: { restoreLoans: true },
+  },
+  restoredMessage: (data) =>
+    data.restoredLoansCount > 0
+      ? `Party and ${data.restoredLoansCount} loans restored successfully`
+      : 'Party restored successfully',
+  deletedMessage: (data) =>
+    data.deletedLoansCount > 0
+      ? `Party and ${data.deletedLoansCount} loans permanently deleted`
+      : 'Party permanently deleted',
+};
+
+const entriesConfig: RecycleBinTypeConfig<DeletedEntry> = {
+  type: 'entries',
+  singular: 'Entry',
+  plural: 'Entries',
+  searchPlaceholder: 'Search by party or loan id...',
+  listKey: 'entries',
+  totalKey: 'totalEntries',
+  columns: [
+    { header: 'Entry Date', render: (entry) => new Date(entry.entryDate).toLocaleDateString() },
+    { header: 'Party', render: (entry) => <span className="font-medium">{entry.loan.party.partyName}</span> },
+    { header: 'Loan', render: (entry) => `#${entry.loanId}` },
+    { header: 'Received Amount', render: (entry) => formatCurrency(entry.receivedAmount ?? 0) },
+    { header: 'Received Interest', render: (entry) => formatCurrency(entry.receivedInterest ?? 0) },
+  ],
+  describe: (entry) => `the entry for ${entry.loan.party.partyName}`,
+  invalidateOnRestore: ['entries', 'loans'],
+};
+
+const usersConfig: RecycleBinTypeConfig<DeletedUser> = {
+  type: 'users',
+  singular: 'User',
+  plural: 'Users',
+  searchPlaceholder: 'Search by name or email...',
+  listKey: 'users',
+  totalKey: 'totalUsers',
+  columns: [
+    { header: 'Name', render: (user) => <span className="font-medium">{user.name}</span> },
+    { header: 'Email', render: (user) => user.email },
+    { header: 'Role', render: (user) => <span className="capitalize">{user.role.replace('_', ' ')}</span> },
+  ],
+  describe: (user) => user.name,
+  invalidateOnRestore: ['users'],
+};
+
+const RecycleBin = () => {
+  const { can } = useRoleAccess();
+  const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+
+  const { data: settings } = useQuery<RecycleBinSettings>({
+    queryKey: ['recycle-bin-settings'],
+    queryFn: () => get('/recycle-bin/settings'),
   });
 
+  const retentionDays = settings?.retentionDays ?? null;
 
   return (
     <div className="p-6 space-y-6">
@@ -140,159 +184,46 @@ const RecycleBin = () => {
         <div>
           <h1 className="text-3xl font-bold">Recycle Bin</h1>
           <p className="text-muted-foreground">
-            Manage deleted loans. Items can be restored or permanently deleted.
+            Manage deleted loans, parties, entries and users. Items can be restored or permanently deleted.
+            {retentionDays
+              ? ` Items are purged automatically ${retentionDays} days after deletion.`
+              : ' Items are kept until they are purged by hand.'}
           </p>
         </div>
-        <div className="flex gap-2">
-          {loansData?.totalLoans > 0 && (
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button variant="destructive">
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Empty All
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle className="flex items-center gap-2">
-                    <AlertTriangle className="h-5 w-5 text-red-500" />
-                    Permanently Delete All Loans?
-                  </AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This will permanently delete all loans in the recycle bin.
-                    This action cannot be undone.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction
-                    onClick={() => emptyRecycleBinMutation.mutate()}
-                    className="bg-red-500 hover:bg-red-600"
-                  >
-                    {emptyRecycleBinMutation.isLoading ? (
-                      <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                    ) : null}
-                    Permanently Delete All
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
-          )}
-        </div>
+        {can(MODULES.RECYCLE_BIN, PERMISSIONS.EDIT) && (
+          <Button variant="outline" onClick={() => setIsRetentionOpen(true)}>
+            <Clock className="h-4 w-4 mr-2" />
+            Retention Period
+          </Button>
+        )}
       </div>
 
-      {/* Loans content */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Deleted Loans ({loansData?.totalLoans || 0})</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {isLoadingLoans ? (
-            <div className="flex items-center justify-center p-4">
-              <LoaderCircle className="h-6 w-6 animate-spin" />
-            </div>
-          ) : isErrorLoans ? (
-            <div className="text-center text-destructive py-4">
-              {(loansError as any)?.message || 'Failed to load deleted loans'}
-            </div>
-          ) : (
-            <>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Deleted Date</TableHead>
-                    <TableHead>Loan Date</TableHead>
-                    <TableHead>Party</TableHead>
-                    <TableHead>Loan Amount</TableHead>
-                    <TableHead>Interest</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {loansData?.loans.length ? (
-                    loansData.loans.map((loan) => (
-                      <TableRow key={loan.id}>
-                        <TableCell>
-                          {new Date(loan.deletedAt).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell>
-                          {new Date(loan.loanDate).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex flex-col">
-                            <span className="font-medium">{loan.party.partyName}</span>
-                            <span className="text-sm text-muted-foreground">
-                              {loan.party.mobile1}
-                            </span>
-                          </div>
-                        </TableCell>
-                        <TableCell>{formatCurrency(loan.loanAmount)}</TableCell>
-                        <TableCell>{loan.interest}%</TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => restoreLoanMutation.mutate(loan.id)}
-                              disabled={restoreLoanMutation.isLoading}
-                              title="Restore Loan"
-                            >
-                              <RotateCcw className="h-4 w-4" />
-                            </Button>
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button variant="ghost" size="sm" title="Permanently Delete">
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Permanently Delete Loan?</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    This will permanently delete the loan for{' '}
-                                    <strong>{loan.party.partyName}</strong>.
-                                    This action cannot be undone.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => permanentlyDeleteLoanMutation.mutate(loan.id)}
-                                    className="bg-red-500 hover:bg-red-600"
-                                  >
-                                    Permanently Delete
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))
-                  ) : (
-                    <TableRow>
-                      <TableCell colSpan={6} className="text-center py-6">
-                        No deleted loans found.
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </TableBody>
-              </Table>
+      <Tabs defaultValue="loans">
+        <TabsList>
+          <TabsTrigger value="loans">Loans</TabsTrigger>
+          <TabsTrigger value="parties">Parties</TabsTrigger>
+          <TabsTrigger value="entries">Entries</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
+        </TabsList>
+        <TabsContent value="loans">
+          <RecycleBinTab config={loansConfig} retentionDays={retentionDays} />
+        </TabsContent>
+        <TabsContent value="parties">
+          <RecycleBinTab config={partiesConfig} retentionDays={retentionDays} />
+        </TabsContent>
+        <TabsContent value="entries">
+          <RecycleBinTab config={entriesConfig} retentionDays={retentionDays} />
+        </TabsContent>
+        <TabsContent value="users">
+          <RecycleBinTab config={usersConfig} retentionDays={retentionDays} />
+        </TabsContent>
+      </Tabs>
 
-              {/* Pagination */}
-              {loansData && loansData.totalPages > 1 && (
-                <div className="mt-4">
-                  <CustomPagination
-                    page={loansPage}
-                    totalPages={loansData.totalPages}
-                    onPageChange={setLoansPage}
-                  />
-                </div>
-              )}
-            </>
-          )}
-        </CardContent>
-      </Card>
+      <RetentionSettingsDialog
+        isOpen={isRetentionOpen}
+        onClose={() => setIsRetentionOpen(false)}
+        settings={settings}
+      />
     </div>
   );
 };
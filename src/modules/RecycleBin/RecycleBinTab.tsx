@@ -0,0 +1,511 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LoaderCircle, Trash2, RotateCcw, AlertTriangle, Search, X } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import CustomPagination from '@/components/common/custom-pagination';
+import { get, post, del, ApiError } from '@/services/apiService';
+import { useRoleAccess } from '@/hooks/useRoleAccess';
+import { MODULES, PERMISSIONS } from '@/config/permissions';
+import { formatPurgeCountdown, getDaysUntilPurge } from './recycleBinRetention';
+
+export interface RecycleBinItem {
+  id: number;
+  deletedAt: string;
+  deletedBy?: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+export interface RecycleBinColumn<T> {
+  header: string;
+  render: (item: T) => React.ReactNode;
+}
+
+export interface RecycleBinTypeConfig<T extends RecycleBinItem> {
+  /** Path segment under /recycle-bin and value of ?type= when emptying */
+  type: string;
+  singular: string;
+  plural: string;
+  searchPlaceholder: string;
+  /** Response keys of the paginated list endpoint */
+  listKey: string;
+  totalKey: string;
+  columns: RecycleBinColumn<T>[];
+  /** Short name of an item for confirmation messages */
+  describe: (item: T) => string;
+  /** Query keys of the live lists refreshed after a restore */
+  invalidateOnRestore: string[];
+  /** When set, restoring items that have related records asks whether those should come back too */
+  relatedRestore?: {
+    hasRelated: (item: T) => boolean;
+    getPrompt: (items: T[]) => string;
+    actionLabel: string;
+    payload: Record<string, unknown>;
+  };
+  restoredMessage?: (data: Record<string, number>) => string;
+  deletedMessage?: (data: Record<string, number>) => string;
+}
+
+interface RecycleBinTabProps<T extends RecycleBinItem> {
+  config: RecycleBinTypeConfig<T>;
+  retentionDays?: number | null;
+}
+
+type RecycleBinResponse<T> = Record<string, T[] | number>;
+
+interface RestorePayload {
+  ids: number[];
+  payload?: Record<string, unknown>;
+}
+
+const RecycleBinTab = <T extends RecycleBinItem>({ config, retentionDays }: RecycleBinTabProps<T>) => {
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [itemsToRestore, setItemsToRestore] = useState<T[] | null>(null);
+  const [isBulkPurgeOpen, setIsBulkPurgeOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { can } = useRoleAccess();
+  const canRestore = can(MODULES.RECYCLE_BIN, PERMISSIONS.RESTORE);
+  const canPurge = can(MODULES.RECYCLE_BIN, PERMISSIONS.DELETE);
+  const canSelect = canRestore || canPurge;
+  const queryKey = `recycle-bin-${config.type}`;
+
+  const { data, isLoading, isError, error } = useQuery<RecycleBinResponse<T>>({
+    queryKey: [queryKey, page, limit, search, fromDate, toDate],
+    queryFn: () =>
+      get(`/recycle-bin/${config.type}`, {
+        page,
+        limit,
+        search: search || undefined,
+        deletedFrom: fromDate || undefined,
+        deletedTo: toDate || undefined,
+      }),
+    placeholderData: keepPreviousData,
+  });
+
+  const items = (data?.[config.listKey] as T[] | undefined) ?? [];
+  const total = (data?.[config.totalKey] as number | undefined) ?? 0;
+  const totalPages = (data?.totalPages as number | undefined) ?? 1;
+  const selectedItems = items.filter((item) => selectedIds.includes(item.id));
+  const allSelected = items.length > 0 && selectedItems.length === items.length;
+  const hasFilters = !!(search || fromDate || toDate);
+
+  // Selection only covers the visible page, so any change of page or filter starts over
+  const updateFilters = (update: () => void) => {
+    update();
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: ({ ids, payload }: RestorePayload) =>
+      ids.length === 1
+        ? post(`/recycle-bin/${config.type}/${ids[0]}/restore`, payload ?? {})
+        : post(`/recycle-bin/${config.type}/restore`, { ids, ...payload }),
+    onSuccess: (result: Record<string, number>, { ids }) => {
+      toast.success(
+        ids.length === 1
+          ? config.restoredMessage?.(result) ?? `${config.singular} restored successfully`
+          : `${result.restoredCount ?? ids.length} ${config.plural.toLowerCase()} restored successfully`
+      );
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      config.invalidateOnRestore.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+      setItemsToRestore(null);
+      setSelectedIds([]);
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || `Failed to restore ${config.plural.toLowerCase()}`);
+    },
+  });
+
+  const permanentlyDeleteMutation = useMutation({
+    mutationFn: (ids: number[]) =>
+      ids.length === 1
+        ? del(`/recycle-bin/${config.type}/${ids[0]}`)
+        : post(`/recycle-bin/${config.type}/purge`, { ids }),
+    onSuccess: (result: Record<string, number>, ids) => {
+      toast.success(
+        ids.length === 1
+          ? config.deletedMessage?.(result) ?? `${config.singular} permanently deleted`
+          : `${result.deletedCount ?? ids.length} ${config.plural.toLowerCase()} permanently deleted`
+      );
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      setSelectedIds([]);
+      setIsBulkPurgeOpen(false);
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || `Failed to permanently delete ${config.plural.toLowerCase()}`);
+    },
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: () => del(`/recycle-bin/empty?type=${config.type}`),
+    onSuccess: () => {
+      toast.success(`Deleted ${config.plural.toLowerCase()} permanently removed`);
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      setSelectedIds([]);
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || 'Failed to empty recycle bin');
+    },
+  });
+
+  const handleRestore = (targets: T[]) => {
+    if (config.relatedRestore && targets.some(config.relatedRestore.hasRelated)) {
+      setItemsToRestore(targets);
+    } else {
+      restoreMutation.mutate({ ids: targets.map((item) => item.id) });
+    }
+  };
+
+  const toggleSelection = (id: number, checked: boolean) => {
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)));
+  };
+
+  const showCountdown = !!retentionDays;
+  const columnCount = config.columns.length + 3 + (showCountdown ? 1 : 0) + (canSelect ? 1 : 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>
+          Deleted {config.plural} ({total})
+        </CardTitle>
+        {total > 0 && canPurge && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty {config.plural}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-red-500" />
+                  Permanently Delete All {config.plural}?
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will permanently delete all {config.plural.toLowerCase()} in the recycle bin. This action cannot
+                  be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => emptyMutation.mutate()} className="bg-red-500 hover:bg-red-600">
+                  {emptyMutation.isPending ? <LoaderCircle className="h-4 w-4 animate-spin mr-2" /> : null}
+                  Permanently Delete All
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardHeader>
+      <CardContent>
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <div className="relative flex-1 min-w-[250px]">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={config.searchPlaceholder}
+              value={search}
+              onChange={(e) => updateFilters(() => setSearch(e.target.value))}
+              className="pl-8 w-full"
+            />
+          </div>
+          <div className="grid gap-1">
+            <span className="text-xs text-muted-foreground">Deleted from</span>
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => updateFilters(() => setFromDate(e.target.value))}
+            />
+          </div>
+          <div className="grid gap-1">
+            <span className="text-xs text-muted-foreground">Deleted to</span>
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => updateFilters(() => setToDate(e.target.value))}
+            />
+          </div>
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                updateFilters(() => {
+                  setSearch('');
+                  setFromDate('');
+                  setToDate('');
+                })
+              }
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {selectedItems.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm text-muted-foreground">{selectedItems.length} selected</span>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+            {canRestore && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRestore(selectedItems)}
+                disabled={restoreMutation.isPending}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore Selected
+              </Button>
+            )}
+            {canPurge && (
+              <Button variant="destructive" size="sm" onClick={() => setIsBulkPurgeOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Selected
+              </Button>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-4">
+            <LoaderCircle className="h-6 w-6 animate-spin" />
+          </div>
+        ) : isError ? (
+          <div className="text-center text-destructive py-4">
+            {(error as ApiError)?.message || `Failed to load deleted ${config.plural.toLowerCase()}`}
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canSelect && (
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(checked === true ? items.map((item) => item.id) : [])
+                        }
+                        aria-label={`Select all ${config.plural.toLowerCase()} on this page`}
+                      />
+                    </TableHead>
+                  )}
+                  <TableHead>Deleted Date</TableHead>
+                  <TableHead>Deleted By</TableHead>
+                  {showCountdown && <TableHead>Auto Purge</TableHead>}
+                  {config.columns.map((column) => (
+                    <TableHead key={column.header}>{column.header}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.length ? (
+                  items.map((item) => {
+                    const daysLeft = retentionDays ? getDaysUntilPurge(item.deletedAt, retentionDays) : null;
+                    return (
+                      <TableRow key={item.id}>
+                        {canSelect && (
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.includes(item.id)}
+                              onCheckedChange={(checked) => toggleSelection(item.id, checked === true)}
+                              aria-label={`Select ${config.describe(item)}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell>{new Date(item.deletedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>{item.deletedBy?.name ?? '-'}</TableCell>
+                        {showCountdown && (
+                          <TableCell className={daysLeft !== null && daysLeft <= 3 ? 'text-red-600 font-medium' : undefined}>
+                            {daysLeft !== null && formatPurgeCountdown(daysLeft)}
+                          </TableCell>
+                        )}
+                        {config.columns.map((column) => (
+                          <TableCell key={column.header}>{column.render(item)}</TableCell>
+                        ))}
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {canRestore && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRestore([item])}
+                                disabled={restoreMutation.isPending}
+                                title={`Restore ${config.singular}`}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canPurge && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="sm" title="Permanently Delete">
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Permanently Delete {config.singular}?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      This will permanently delete <strong>{config.describe(item)}</strong>. This action
+                                      cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => permanentlyDeleteMutation.mutate([item.id])}
+                                      className="bg-red-500 hover:bg-red-600"
+                                    >
+                                      Permanently Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center py-6">
+                      No deleted {config.plural.toLowerCase()} found.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            {totalPages > 1 && (
+              <div className="mt-4">
+                <CustomPagination
+                  currentPage={page}
+                  totalPages={totalPages}
+                  totalRecords={total}
+                  recordsPerPage={limit}
+                  onPageChange={(newPage) => {
+                    setPage(newPage);
+                    setSelectedIds([]);
+                  }}
+                  onRecordsPerPageChange={(newLimit) => updateFilters(() => setLimit(newLimit))}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {/* Bulk purge confirmation */}
+      <AlertDialog open={isBulkPurgeOpen} onOpenChange={setIsBulkPurgeOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Permanently Delete {selectedItems.length} {config.plural}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected {config.plural.toLowerCase()} will be permanently deleted. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              disabled={permanentlyDeleteMutation.isPending}
+              onClick={() => permanentlyDeleteMutation.mutate(selectedItems.map((item) => item.id))}
+            >
+              {permanentlyDeleteMutation.isPending && <LoaderCircle className="h-4 w-4 animate-spin mr-2" />}
+              Permanently Delete
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Restore with related records */}
+      {config.relatedRestore && (
+        <AlertDialog open={!!itemsToRestore} onOpenChange={(open) => !open && setItemsToRestore(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Restore{' '}
+                {itemsToRestore?.length === 1
+                  ? config.describe(itemsToRestore[0])
+                  : `${itemsToRestore?.length ?? 0} ${config.plural.toLowerCase()}`}
+                ?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {itemsToRestore ? config.relatedRestore.getPrompt(itemsToRestore) : null}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button
+                variant="outline"
+                disabled={restoreMutation.isPending}
+                onClick={() =>
+                  itemsToRestore && restoreMutation.mutate({ ids: itemsToRestore.map((item) => item.id) })
+                }
+              >
+                Restore {(itemsToRestore?.length === 1 ? config.singular : config.plural).toLowerCase()} only
+              </Button>
+              <Button
+                disabled={restoreMutation.isPending}
+                onClick={() =>
+                  itemsToRestore &&
+                  restoreMutation.mutate({
+                    ids: itemsToRestore.map((item) => item.id),
+                    payload: config.relatedRestore?.payload,
+                  })
+                }
+              >
+                {restoreMutation.isPending && <LoaderCircle className="h-4 w-4 animate-spin mr-2" />}
+                {config.relatedRestore.actionLabel}
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </Card>
+  );
+};
+
+export default RecycleBinTab;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoaderCircle } from 'lucide-react';
+import { put, ApiError } from '@/services/apiService';
+import { RecycleBinSettings } from './recycleBinRetention';
+
+interface RetentionSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings?: RecycleBinSettings;
+}
+
+const RetentionSettingsDialog: React.FC<RetentionSettingsDialogProps> = ({ isOpen, onClose, settings }) => {
+  const queryClient = useQueryClient();
+  const [retentionDays, setRetentionDays] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRetentionDays(settings?.retentionDays ? String(settings.retentionDays) : '');
+      setError(null);
+    }
+  }, [isOpen, settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: RecycleBinSettings) => put('/recycle-bin/settings', data),
+    onSuccess: () => {
+      toast.success('Retention period updated');
+      queryClient.invalidateQueries({ queryKey: ['recycle-bin-settings'] });
+      onClose();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.message || 'Failed to update retention period');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = retentionDays.trim();
+    if (!trimmed) {
+      saveMutation.mutate({ retentionDays: null });
+      return;
+    }
+    const days = Number(trimmed);
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      setError('Enter a whole number of days between 1 and 3650');
+      return;
+    }
+    saveMutation.mutate({ retentionDays: days });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Retention Period</DialogTitle>
+            <DialogDescription>
+              Items older than this are permanently deleted from the recycle bin automatically. Leave empty to keep
+              them until they are purged by hand.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="retentionDays">Days to keep deleted items</Label>
+            <Input
+              id="retentionDays"
+              type="number"
+              min={1}
+              value={retentionDays}
+              onChange={(e) => {
+                setRetentionDays(e.target.value);
+                setError(null);
+              }}
+              placeholder="Keep forever"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <LoaderCircle className="h-4 w-4 animate-spin mr-2" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RetentionSettingsDialog;
@@ -0,0 +1,14 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+
+export interface RecycleBinSettings {
+  /** Days an item stays in the recycle bin before the server purges it; null keeps items forever */
+  retentionDays: number | null;
+}
+
+export const getDaysUntilPurge = (deletedAt: string, retentionDays: number) =>
+  Math.max(0, differenceInCalendarDays(addDays(parseISO(deletedAt), retentionDays), new Date()));
+
+export const formatPurgeCountdown = (days: number) => {
+  if (days === 0) return 'Purged today';
+  return days === 1 ? '1 day left' : `${days} days left`;
+};
@@ -0,0 +1,264 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Download, LoaderCircle } from "lucide-react";
+import { get } from "@/services/apiService";
+import { formatCurrency } from "@/lib/formatter";
+import { downloadExcel } from "@/lib/export";
+import { fetchAllOpenLoans } from "@/modules/Collections/openLoans";
+import {
+  AGING_BUCKETS,
+  AgingBucketKey,
+  MonthlyReceipt,
+  getAgingBucket,
+  getDaysSincePayment,
+  getLastReceivedDate,
+} from "./agingBuckets";
+
+interface OpenLoan {
+  id: number;
+  loanDate: string;
+  loanAmount: number;
+  balanceAmount: number;
+  balanceInterest: number;
+  interest: number;
+  party?: {
+    id: number;
+    partyName: string;
+    accountNumber: string;
+    mobile1: string;
+  };
+}
+
+interface MonthlySummaryItem {
+  loanId: number;
+  monthlyData?: Record<string, MonthlyReceipt>;
+}
+
+interface AgingRow {
+  loan: OpenLoan;
+  lastReceivedDate: string | null;
+  daysSincePayment: number;
+  bucket: AgingBucketKey;
+}
+
+const AgingReport = () => {
+  const [selectedBucket, setSelectedBucket] = useState<AgingBucketKey | null>(null);
+
+  const { data: loansData, isLoading: isLoadingLoans } = useQuery<OpenLoan[]>({
+    queryKey: ["loans", "open", "aging"],
+    queryFn: () => fetchAllOpenLoans<OpenLoan>(),
+  });
+
+  const openLoans = useMemo(() => loansData ?? [], [loansData]);
+  const earliestLoanDate = openLoans[0]?.loanDate;
+
+  // monthlyData covering the lifetime of the oldest open loan
+  const { data: summaryData, isLoading: isLoadingSummary } = useQuery<{ summary: MonthlySummaryItem[] }>({
+    queryKey: ["loans", "monthly-summary", "aging", earliestLoanDate],
+    queryFn: () =>
+      get("/loans/monthly-summary", {
+        startDate: parseISO(earliestLoanDate!).toISOString(),
+        endDate: new Date().toISOString(),
+      }),
+    enabled: !!earliestLoanDate,
+  });
+
+  const rows = useMemo<AgingRow[]>(() => {
+    const summaryMap = new Map<number, MonthlySummaryItem>();
+    summaryData?.summary?.forEach((item) => summaryMap.set(item.loanId, item));
+
+    return openLoans
+      .map((loan) => {
+        const lastReceivedDate = getLastReceivedDate(summaryMap.get(loan.id)?.monthlyData);
+        const daysSincePayment = getDaysSincePayment(lastReceivedDate, loan.loanDate);
+        return { loan, lastReceivedDate, daysSincePayment, bucket: getAgingBucket(daysSincePayment) };
+      })
+      .sort((a, b) => b.daysSincePayment - a.daysSincePayment);
+  }, [openLoans, summaryData]);
+
+  const bucketTotals = useMemo(
+    () =>
+      AGING_BUCKETS.map((bucket) => {
+        const bucketRows = rows.filter((row) => row.bucket === bucket.key);
+        return {
+          ...bucket,
+          count: bucketRows.length,
+          principal: bucketRows.reduce((sum, row) => sum + row.loan.balanceAmount, 0),
+          pendingInterest: bucketRows.reduce((sum, row) => sum + row.loan.balanceInterest, 0),
+        };
+      }),
+    [rows]
+  );
+
+  const visibleRows = selectedBucket ? rows.filter((row) => row.bucket === selectedBucket) : rows;
+  const bucketLabel = (key: AgingBucketKey) => AGING_BUCKETS.find((bucket) => bucket.key === key)?.label ?? key;
+
+  const handleExport = () => {
+    const loanRows = visibleRows.map((row) => [
+      bucketLabel(row.bucket),
+      row.loan.party?.partyName ?? "",
+      row.loan.party?.accountNumber ?? "",
+      row.loan.party?.mobile1 ?? "",
+      row.loan.id,
+      format(parseISO(row.loan.loanDate), "dd/MM/yyyy"),
+      row.lastReceivedDate ? format(parseISO(row.lastReceivedDate), "dd/MM/yyyy") : "Never",
+      row.daysSincePayment,
+      row.loan.balanceAmount,
+      row.loan.balanceInterest,
+    ]);
+    const summaryRows = bucketTotals.map((bucket) => [
+      bucket.label,
+      `${bucket.count} loans`,
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      bucket.principal,
+      bucket.pendingInterest,
+    ]);
+
+    downloadExcel(
+      `aging-report-${format(new Date(), "yyyy-MM-dd")}.xls`,
+      "Aging Report",
+      [
+        "Bucket",
+        "Party",
+        "Account Number",
+        "Mobile",
+        "Loan",
+        "Loan Date",
+        "Last Received",
+        "Days Since Payment",
+        "Outstanding Principal",
+        "Pending Interest",
+      ],
+      [...loanRows, [], ["Bucket Totals"], ...summaryRows]
+    );
+  };
+
+  const isLoading = isLoadingLoans || isLoadingSummary;
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              Delinquency Aging
+              <CardDescription>
+                Open loans grouped by days since the last payment received
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={handleExport} disabled={isLoading || rows.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {/* Bucket summary */}
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-5">
+            {bucketTotals.map((bucket) => (
+              <button
+                key={bucket.key}
+                type="button"
+                onClick={() => setSelectedBucket(selectedBucket === bucket.key ? null : bucket.key)}
+                className={`rounded-lg border p-3 text-left transition-colors ${
+                  selectedBucket === bucket.key ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                }`}
+              >
+                <div className="flex items-center justify-between text-sm font-medium">
+                  {bucket.label}
+                  <span className="text-muted-foreground">{bucket.count}</span>
+                </div>
+                <div className="mt-2 text-xs text-muted-foreground">Principal</div>
+                <div className="font-semibold tabular-nums">{formatCurrency(bucket.principal)}</div>
+                <div className="mt-1 text-xs text-muted-foreground">Pending Interest</div>
+                <div className="font-semibold tabular-nums">{formatCurrency(bucket.pendingInterest)}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Loans in the selected bucket */}
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead>Party</TableHead>
+                  <TableHead className="text-center">Loan</TableHead>
+                  <TableHead className="text-center">Loan Date</TableHead>
+                  <TableHead className="text-center">Last Received</TableHead>
+                  <TableHead className="text-center">Days Since Payment</TableHead>
+                  <TableHead className="text-center">Bucket</TableHead>
+                  <TableHead className="text-right">Outstanding Principal</TableHead>
+                  <TableHead className="text-right">Pending Interest</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center">
+                      <LoaderCircle className="h-8 w-8 animate-spin inline-block" />
+                    </TableCell>
+                  </TableRow>
+                ) : visibleRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6">
+                      No open loans in this bucket.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleRows.map((row) => (
+                    <TableRow key={row.loan.id}>
+                      <TableCell>
+                        <Link
+                          to={`/loans?partyId=${row.loan.party?.id ?? ""}`}
+                          className="font-medium hover:underline"
+                        >
+                          {row.loan.party?.partyName}
+                        </Link>
+                        <div className="text-sm text-muted-foreground">
+                          {row.loan.party?.accountNumber} · {row.loan.party?.mobile1}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Link to={`/entries?loanId=${row.loan.id}`} className="hover:underline">
+                          #{row.loan.id}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-center">{format(parseISO(row.loan.loanDate), "dd/MM/yyyy")}</TableCell>
+                      <TableCell className="text-center">
+                        {row.lastReceivedDate ? format(parseISO(row.lastReceivedDate), "dd/MM/yyyy") : "Never"}
+                      </TableCell>
+                      <TableCell className="text-center tabular-nums">{row.daysSincePayment}</TableCell>
+                      <TableCell className="text-center">{bucketLabel(row.bucket)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(row.loan.balanceAmount)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(row.loan.balanceInterest)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AgingReport;
@@ -0,0 +1,32 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current", minDays: -Infinity, maxDays: 0 },
+  { key: "1-30", label: "1–30 Days", minDays: 1, maxDays: 30 },
+  { key: "31-60", label: "31–60 Days", minDays: 31, maxDays: 60 },
+  { key: "61-90", label: "61–90 Days", minDays: 61, maxDays: 90 },
+  { key: "90+", label: "90+ Days", minDays: 91, maxDays: Infinity },
+] as const;
+
+export type AgingBucketKey = (typeof AGING_BUCKETS)[number]["key"];
+
+export interface MonthlyReceipt {
+  receivedDate: string | null;
+}
+
+/** Latest receivedDate across the loan's monthlyData, or null when nothing was ever received */
+export const getLastReceivedDate = (monthlyData: Record<string, MonthlyReceipt> = {}): string | null =>
+  Object.values(monthlyData).reduce<string | null>((latest, month) => {
+    if (!month.receivedDate) return latest;
+    return !latest || month.receivedDate > latest ? month.receivedDate : latest;
+  }, null);
+
+/**
+ * Days since the last receipt or, for loans that never paid, since the loan date.
+ */
+export const getDaysSincePayment = (lastReceivedDate: string | null, loanDate: string, today: Date = new Date()) =>
+  differenceInCalendarDays(today, parseISO(lastReceivedDate ?? loanDate));
+
+export const getAgingBucket = (daysSincePayment: number): AgingBucketKey =>
+  AGING_BUCKETS.find((bucket) => daysSincePayment >= bucket.minDays && daysSincePayment <= bucket.maxDays)?.key ??
+  "90+";
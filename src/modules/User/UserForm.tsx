@@ -22,6 +22,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { post, put } from "@/services/apiService";
 import { PasswordInput } from "@/components/ui/password-input";
 import Validate from "@/lib/Handlevalidation";
+import { useBranch } from "@/hooks/useBranch";
 
 const userFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -31,6 +32,7 @@ const userFormSchema = z.object({
     .min(6, "Password must be at least 6 characters long")
     .optional(),
   role: z.string().min(1, "Role is required"),
+  branchId: z.number({ required_error: "Branch is required" }),
   active: z.boolean().optional(),
 });
 
@@ -49,6 +51,7 @@ const UserForm = ({ mode, userId, onSuccess, className }: UserFormProps) => {
   const [roles, setRoles] = useState<string[]>([]); // Roles fetched from API
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { branches } = useBranch();
 
   const {
     register,
@@ -91,6 +94,7 @@ const UserForm = ({ mode, userId, onSuccess, className }: UserFormProps) => {
           setValue("name", user.name);
           setValue("email", user.email);
           setValue("role", user.role);
+          setValue("branchId", user.branchId);
           setValue("active", user.active);
         } catch (error: any) {
           toast.error("Failed to fetch user details");
@@ -211,6 +215,38 @@ const UserForm = ({ mode, userId, onSuccess, className }: UserFormProps) => {
           </div>
         )}
 
+        {/* Branch Dropdown */}
+        <div className="grid gap-2 relative">
+          <Label htmlFor="branchId">Branch</Label>
+          <Controller
+            name="branchId"
+            control={control}
+            render={({ field }) => (
+              <Select
+                value={field.value ? String(field.value) : undefined}
+                onValueChange={(value) => field.onChange(Number(value))}
+              >
+                <SelectTrigger id="branchId">
+                  <SelectValue placeholder="Select a branch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map((branch) => (
+                    <SelectItem key={branch.id} value={String(branch.id)}>
+                      {branch.name}
+                      {branch.isHeadOffice ? " (Head office)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          {errors.branchId && (
+            <span className="text-red-500 text-[10px] absolute bottom-0 translate-y-[105%]">
+              {errors.branchId.message}
+            </span>
+          )}
+        </div>
+
         {/* Role and Active Fields in the Same Row */}
         <div className="grid gap-4 md:grid-cols-2">
           {/* Role Dropdown */}
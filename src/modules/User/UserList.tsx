@@ -42,6 +42,8 @@ import {
   XCircle,
 } from "lucide-react";
 import ConfirmDialog from "@/components/common/confirm-dialog";
+import { useRoleAccess } from "@/hooks/useRoleAccess";
+import { MODULES, PERMISSIONS } from "@/config/permissions";
 import { saveAs } from "file-saver";
 import { Badge } from "@/components/ui/badge"; // Ensure Badge is imported
 import ChangePasswordDialog from "./ChangePasswordDialog";
@@ -81,6 +83,7 @@ const fetchUsers = async (
 
 const UserList = () => {
   const queryClient = useQueryClient();
+  const { can } = useRoleAccess();
   const [currentPage, setCurrentPage] = useState(1);
   const [recordsPerPage, setRecordsPerPage] = useState(10); // Add recordsPerPage state
   const [sortBy, setSortBy] = useState("name"); // Default sort column
@@ -329,13 +332,15 @@ const UserList = () => {
                 <Download className="mr-2 h-4 w-4" />
                 Export
               </Button>
-              <Button
-                onClick={() => setShowCreateDialog(true)}
-                className="bg-primary hover:bg-primary/90 text-white shadow-sm transition-all duration-200 hover:shadow-md"
-              >
-                <PlusCircle className="mr-2 h-5 w-5" />
-                Add
-              </Button>
+              {can(MODULES.USERS, PERMISSIONS.CREATE) && (
+                <Button
+                  onClick={() => setShowCreateDialog(true)}
+                  className="bg-primary hover:bg-primary/90 text-white shadow-sm transition-all duration-200 hover:shadow-md"
+                >
+                  <PlusCircle className="mr-2 h-5 w-5" />
+                  Add
+                </Button>
+              )}
             </div>
           </div>
 
@@ -468,6 +473,7 @@ const UserList = () => {
                         )}
                       </div>
                     </TableHead>
+                    <TableHead>Branch</TableHead>
                     <TableHead
                       onClick={() => handleSort("lastLogin")}
                       className="cursor-pointer"
@@ -521,6 +527,7 @@ const UserList = () => {
                             .join(" ")}
                         </Badge>
                       </TableCell>
+                      <TableCell>{user.branch?.name ?? "—"}</TableCell>
 
                       <TableCell>
                         {user.lastLogin
@@ -536,59 +543,65 @@ const UserList = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEdit(user.id.toString())}
-                          >
-                            <Edit size={16} />
-                          </Button>
-
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => confirmDelete(user.id)}
-                          >
-                            <Trash2 size={16} />
-                          </Button>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" className="h-8 w-8 p-0">
-                                <span className="sr-only">Open menu</span>
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent className="w-56">
-                              <DropdownMenuGroup>
-                                <DropdownMenuItem
-                                  onClick={() =>
-                                    handleChangeStatus(user.id, user.active)
-                                  }
-                                >
-                                  <div className="flex items-center gap-2">
-                                    {user.active ? (
-                                      <XCircle className="h-4 w-4" />
-                                    ) : (
-                                      <CheckCircle className="h-4 w-4" />
-                                    )}
-                                    <span>
-                                      Set {user.active ? "Inactive" : "Active"}
-                                    </span>
-                                  </div>
-                                </DropdownMenuItem>
-                                <DropdownMenuItem
-                                  onClick={() =>
-                                    handleOpenChangePassword(user.id)
-                                  }
-                                >
-                                  <div className="flex items-center gap-2">
-                                    <ShieldEllipsis className="h-4 w-4" />
-                                    <span>Change Password</span>
-                                  </div>
-                                </DropdownMenuItem>
-                              </DropdownMenuGroup>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
+                          {can(MODULES.USERS, PERMISSIONS.EDIT) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(user.id.toString())}
+                            >
+                              <Edit size={16} />
+                            </Button>
+                          )}
+
+                          {can(MODULES.USERS, PERMISSIONS.DELETE) && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => confirmDelete(user.id)}
+                            >
+                              <Trash2 size={16} />
+                            </Button>
+                          )}
+                          {can(MODULES.USERS, PERMISSIONS.EDIT) && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" className="h-8 w-8 p-0">
+                                  <span className="sr-only">Open menu</span>
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent className="w-56">
+                                <DropdownMenuGroup>
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      handleChangeStatus(user.id, user.active)
+                                    }
+                                  >
+                                    <div className="flex items-center gap-2">
+                                      {user.active ? (
+                                        <XCircle className="h-4 w-4" />
+                                      ) : (
+                                        <CheckCircle className="h-4 w-4" />
+                                      )}
+                                      <span>
+                                        Set {user.active ? "Inactive" : "Active"}
+                                      </span>
+                                    </div>
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      handleOpenChangePassword(user.id)
+                                    }
+                                  >
+                                    <div className="flex items-center gap-2">
+                                      <ShieldEllipsis className="h-4 w-4" />
+                                      <span>Change Password</span>
+                                    </div>
+                                  </DropdownMenuItem>
+                                </DropdownMenuGroup>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -625,7 +638,7 @@ const UserList = () => {
       <ConfirmDialog
         isOpen={showConfirmation}
         title="Confirm Deletion"
-        description="Are you sure you want to delete this user? This action cannot be undone."
+        description="Are you sure you want to delete this user? The user will be moved to the recycle bin, where they can be restored."
         onCancel={() => {
           setShowConfirmation(false);
           setUserToDelete(null);
@@ -1,5 +1,6 @@
-import axios from "axios";
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
 import { backendUrl } from "../config";
+import { BRANCH_HEADER, getSelectedBranchId } from "@/lib/branchSelection";
 
 const api = axios.create({
   baseURL: backendUrl,
@@ -8,6 +9,15 @@ const api = axios.create({
   },
 });
 
+// Shape of the error object thrown by every helper below
+export interface ApiError {
+  status?: number;
+  errors?: unknown;
+  message: string;
+  data?: unknown;
+  originalError?: unknown;
+}
+
 // Helper function to ensure URLs are prefixed with '/api'
 const ensureApiPrefix = (url: string): string => {
   // If URL already starts with '/api', return as is
@@ -55,9 +65,96 @@ api.interceptors.request.use((config) => {
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+  const branchId = getSelectedBranchId();
+  if (branchId) {
+    config.headers[BRANCH_HEADER] = String(branchId);
+  }
   return config;
 });
 
+// Requests that must never trigger a token refresh themselves
+const AUTH_URLS = ["/api/auth/login", "/api/auth/refresh"];
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+// Called once the session cannot be refreshed; AuthProvider registers its logout here
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Requests that got a 401 while a refresh was already running wait here to be replayed
+let isRefreshing = false;
+let pendingRequests: { resolve: () => void; reject: (error: unknown) => void }[] = [];
+
+const flushPendingRequests = (error: unknown) => {
+  pendingRequests.forEach(({ resolve, reject }) => (error ? reject(error) : resolve()));
+  pendingRequests = [];
+};
+
+// Uses plain axios so the refresh call does not go through the interceptors below
+const refreshAccessToken = async () => {
+  const refreshToken = localStorage.getItem("refreshToken");
+  if (!refreshToken) {
+    throw new Error("No refresh token");
+  }
+  const response = await axios.post(`${backendUrl}/api/auth/refresh`, { refreshToken });
+  localStorage.setItem("authToken", response.data.token);
+  // The server may rotate the refresh token as well
+  if (response.data.accesstoken) {
+    localStorage.setItem("refreshToken", response.data.accesstoken);
+  }
+};
+
+// Refreshes the access token on 401 and replays the request; the request interceptor
+// picks the new token up from localStorage on the way back out
+const attachTokenRefresh = (instance: AxiosInstance) => {
+  instance.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const originalRequest = error.config as RetriableRequestConfig | undefined;
+      if (
+        error.response?.status !== 401 ||
+        !originalRequest ||
+        originalRequest._retry ||
+        AUTH_URLS.some((url) => originalRequest.url?.startsWith(url)) ||
+        !localStorage.getItem("authToken")
+      ) {
+        return Promise.reject(error);
+      }
+      originalRequest._retry = true;
+
+      if (isRefreshing) {
+        try {
+          await new Promise<void>((resolve, reject) => pendingRequests.push({ resolve, reject }));
+        } catch {
+          return Promise.reject(error);
+        }
+        return instance(originalRequest);
+      }
+
+      isRefreshing = true;
+      try {
+        await refreshAccessToken();
+      } catch (refreshError) {
+        console.error('Token refresh failed:', refreshError);
+        flushPendingRequests(refreshError);
+        sessionExpiredHandler?.();
+        return Promise.reject(error);
+      } finally {
+        isRefreshing = false;
+      }
+      flushPendingRequests(null);
+      return instance(originalRequest);
+    }
+  );
+};
+
+attachTokenRefresh(api);
+
 export const get = async (url: string, params?: any, config?: any) => {
   try {
     const finalConfig = {
@@ -169,8 +266,13 @@ export const postupload = async (
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
+      const branchId = getSelectedBranchId();
+      if (branchId) {
+        config.headers[BRANCH_HEADER] = String(branchId);
+      }
       return config;
     });
+    attachTokenRefresh(uploadInstance);
 
     const response = await uploadInstance.post(ensureApiPrefix(url), formData, config);
     return response.data;
@@ -203,8 +305,13 @@ export const putupload = async (
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
+      const branchId = getSelectedBranchId();
+      if (branchId) {
+        config.headers[BRANCH_HEADER] = String(branchId);
+      }
       return config;
     });
+    attachTokenRefresh(uploadInstance);
 
     const response = await uploadInstance.put(ensureApiPrefix(url), formData, config);
     return response.data;